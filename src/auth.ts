@@ -0,0 +1,206 @@
+import axios from 'axios';
+import {
+  ApiKeyAuthOptions,
+  AuthenticationError,
+  AuthProvider,
+  AuthRequest,
+  BasicAuthOptions,
+  BearerAuthOptions,
+  CredentialValue,
+  HmacAuthOptions,
+  OAuth2ClientCredentialsOptions,
+} from './types';
+
+async function resolveCredential(value: CredentialValue): Promise<string | null> {
+  const resolved = typeof value === 'function' ? await value() : value;
+  return resolved || null;
+}
+
+// btoa n'accepte que du Latin-1 : encoder d'abord en UTF-8
+function toBase64(value: string): string {
+  const binary = encodeURIComponent(value).replace(/%([0-9A-F]{2})/g, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+  return btoa(binary);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function bearerAuth(options: BearerAuthOptions): AuthProvider {
+  const { scheme = 'Bearer' } = options;
+
+  return {
+    apply: async (request) => {
+      const token = await resolveCredential(options.token);
+      if (token) {
+        request.headers.Authorization = `${scheme} ${token}`;
+      }
+    },
+  };
+}
+
+export function apiKeyAuth(options: ApiKeyAuthOptions): AuthProvider {
+  const { in: location = 'header' } = options;
+  const name = options.name ?? (location === 'query' ? 'api_key' : 'X-Api-Key');
+
+  return {
+    apply: async (request) => {
+      const key = await resolveCredential(options.key);
+      if (!key) return;
+
+      if (location === 'query') {
+        request.params[name] = key;
+      } else {
+        request.headers[name] = key;
+      }
+    },
+  };
+}
+
+export function basicAuth(options: BasicAuthOptions): AuthProvider {
+  const credentials = toBase64(`${options.username}:${options.password}`);
+
+  return {
+    apply: (request) => {
+      request.headers.Authorization = `Basic ${credentials}`;
+    },
+  };
+}
+
+export function oauth2ClientCredentials(options: OAuth2ClientCredentialsOptions): AuthProvider {
+  const { clientAuthentication = 'body', expirySkew = 30000 } = options;
+  let cached: { token: string; expiresAt: number } | null = null;
+  let pending: Promise<string> | null = null;
+
+  const requestToken = async (): Promise<string> => {
+    const body = new URLSearchParams({ grant_type: 'client_credentials', ...options.params });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    if (options.scope) {
+      body.set('scope', Array.isArray(options.scope) ? options.scope.join(' ') : options.scope);
+    }
+    if (options.audience) {
+      body.set('audience', options.audience);
+    }
+    if (clientAuthentication === 'basic') {
+      headers.Authorization = `Basic ${toBase64(`${options.clientId}:${options.clientSecret}`)}`;
+    } else {
+      body.set('client_id', options.clientId);
+      body.set('client_secret', options.clientSecret);
+    }
+
+    try {
+      // Instance Axios par défaut : le token ne doit pas traverser le pipeline du client
+      const { data } = await axios.post(options.tokenUrl, body.toString(), { headers });
+      if (!data?.access_token) {
+        throw new Error('Missing access_token in token response');
+      }
+
+      const expiresIn = Number(data.expires_in);
+      cached = {
+        token: data.access_token,
+        expiresAt: Number.isFinite(expiresIn) ? Date.now() + expiresIn * 1000 : Infinity,
+      };
+      return cached.token;
+    } catch (error) {
+      throw new AuthenticationError('OAuth2 token request failed', undefined, error);
+    }
+  };
+
+  // Une seule demande de token à la fois
+  const getToken = (): Promise<string> => {
+    if (cached && Date.now() < cached.expiresAt - expirySkew) {
+      return Promise.resolve(cached.token);
+    }
+    if (!pending) {
+      pending = requestToken().finally(() => {
+        pending = null;
+      });
+    }
+    return pending;
+  };
+
+  return {
+    apply: async (request) => {
+      request.headers.Authorization = `Bearer ${await getToken()}`;
+    },
+    refresh: async () => {
+      cached = null;
+      try {
+        await getToken();
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+function getRequestPath(request: AuthRequest): string {
+  const isAbsolute = /^[a-z][a-z\d+\-.]*:\/\//i.test(request.url);
+  const url = isAbsolute || !request.baseURL
+    ? request.url
+    : `${request.baseURL.replace(/\/+$/, '')}/${request.url.replace(/^\/+/, '')}`;
+
+  const parsed = new URL(url, 'http://localhost');
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+function getBodyBytes(data: unknown): string | BufferSource {
+  if (data === undefined || data === null) return '';
+  if (typeof data === 'string') return data;
+  if (data instanceof URLSearchParams) return data.toString();
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data as BufferSource;
+  // FormData et Blob ne sont pas sérialisables ici : signés comme un corps vide
+  if (typeof FormData !== 'undefined' && data instanceof FormData) return '';
+  if (typeof Blob !== 'undefined' && data instanceof Blob) return '';
+  return JSON.stringify(data);
+}
+
+// Signature : `${METHOD}\n${chemin?query}\n${timestamp}\n${empreinte hex du corps}`
+export function hmacAuth(options: HmacAuthOptions): AuthProvider {
+  const {
+    algorithm = 'SHA-256',
+    scheme = 'HMAC',
+    timestampHeader = 'X-Timestamp',
+    bodyHashHeader = 'X-Content-SHA256',
+  } = options;
+  let key: Promise<CryptoKey> | null = null;
+
+  const getSubtle = (): SubtleCrypto => {
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) {
+      throw new AuthenticationError('Web Crypto API is not available for HMAC signing');
+    }
+    return subtle;
+  };
+
+  return {
+    apply: async (request) => {
+      const subtle = getSubtle();
+      const encoder = new TextEncoder();
+      const body = getBodyBytes(request.data);
+
+      key ??= subtle.importKey(
+        'raw',
+        encoder.encode(options.secret),
+        { name: 'HMAC', hash: algorithm },
+        false,
+        ['sign']
+      );
+
+      const bodyHash = toHex(await subtle.digest('SHA-256', typeof body === 'string' ? encoder.encode(body) : body));
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const canonical = [request.method.toUpperCase(), getRequestPath(request), timestamp, bodyHash].join('\n');
+      const signature = toHex(await subtle.sign('HMAC', await key, encoder.encode(canonical)));
+
+      request.headers[timestampHeader] = timestamp;
+      request.headers[bodyHashHeader] = bodyHash;
+      request.headers.Authorization = `${scheme} ${options.keyId}:${signature}`;
+    },
+    // La signature change chaque seconde : la clé et le secret identifient l'appelant
+    identity: () => `${options.keyId}:${options.secret}`,
+  };
+}
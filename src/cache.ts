@@ -0,0 +1,210 @@
+import { GenericAbortSignal } from 'axios';
+import { CacheEntry, CacheOptions, CacheStore, RequestCacheOptions } from './types';
+import { RequestDeduplicator } from './dedupe';
+
+const DEFAULT_TTL = 60000;
+const DEFAULT_MAX_ENTRIES = 100;
+
+// Hash FNV-1a : évite de stocker le token en clair dans les clés de cache
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+// Trie les paramètres pour que `?a=1&b=2` et `?b=2&a=1` partagent la même clé
+export function normalizeUrl(url: string): string {
+  const [path, query] = url.split('?');
+  if (!query) return path;
+
+  const params = new URLSearchParams(query);
+  params.sort();
+  return `${path}?${params.toString()}`;
+}
+
+// En-têtes Axios (AxiosHeaders ou objet brut) vers un objet simple aux clés en minuscules
+export function normalizeHeaders(headers: unknown): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') return normalized;
+
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value !== undefined && value !== null && typeof value !== 'function') {
+      normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  });
+  return normalized;
+}
+
+// Les paramètres Axios (`config.params`) font partie de l'URL envoyée
+function withParams(url: string, params: Record<string, unknown> = {}): string {
+  const entries = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([name, value]) => [name, typeof value === 'object' ? JSON.stringify(value) : String(value)]);
+  if (!entries.length) return url;
+
+  const query = new URLSearchParams(entries).toString();
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+}
+
+export function buildRequestKey(parts: {
+  method: string;
+  service: string;
+  url: string;
+  params?: Record<string, unknown>;
+  // En-têtes et paramètres d'authentification tels qu'envoyés : seule leur empreinte entre dans la clé
+  credentials?: Record<string, string>;
+}): string {
+  const credentials = Object.entries(parts.credentials ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  const identity = credentials.length ? hashString(JSON.stringify(credentials)) : 'anonymous';
+  return [parts.method.toUpperCase(), identity, parts.service, normalizeUrl(withParams(parts.url, parts.params))].join(' ');
+}
+
+function matchesPattern(url: string, pattern: string | RegExp): boolean {
+  if (pattern instanceof RegExp) return pattern.test(url);
+
+  if (pattern.includes('*')) {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(url);
+  }
+  return url.startsWith(pattern);
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Réinsérer l'entrée la marque comme la plus récemment utilisée
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export type CacheFetcher<T> = (
+  etag: string | undefined,
+  signal: AbortSignal
+) => Promise<{ data: T; status: number; headers?: unknown }>;
+
+export class ResponseCache {
+  private store: CacheStore;
+  private revalidations = new RequestDeduplicator();
+
+  constructor(private options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries);
+  }
+
+  async fetch<T>(
+    key: string,
+    meta: { service: string; url: string },
+    requestOptions: RequestCacheOptions,
+    fetcher: CacheFetcher<T>,
+    signal?: GenericAbortSignal
+  ): Promise<T> {
+    return (await this.fetchEntry(key, meta, requestOptions, fetcher, signal)).data;
+  }
+
+  async fetchEntry<T>(
+    key: string,
+    meta: { service: string; url: string },
+    requestOptions: RequestCacheOptions,
+    fetcher: CacheFetcher<T>,
+    signal?: GenericAbortSignal
+  ): Promise<CacheEntry<T>> {
+    const options = { ...this.options, ...requestOptions };
+    const entry = (await this.store.get(key)) as CacheEntry<T> | undefined;
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return entry;
+    }
+
+    if (entry && now < entry.staleUntil) {
+      // Servir la donnée périmée et la rafraîchir en arrière-plan
+      this.revalidate(key, meta, options, fetcher, entry).catch(() => undefined);
+      return entry;
+    }
+
+    return this.revalidate(key, meta, options, fetcher, entry, signal);
+  }
+
+  async invalidate(pattern: string | RegExp, service?: string): Promise<void> {
+    const keys = await this.store.keys();
+
+    for (const key of keys) {
+      const entry = await this.store.get(key);
+      if (!entry) continue;
+      if (service && entry.service !== service) continue;
+      if (matchesPattern(entry.url, pattern)) {
+        await this.store.delete(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private revalidate<T>(
+    key: string,
+    meta: { service: string; url: string },
+    options: RequestCacheOptions,
+    fetcher: CacheFetcher<T>,
+    entry?: CacheEntry<T>,
+    signal?: GenericAbortSignal
+  ): Promise<CacheEntry<T>> {
+    // Chaque appelant s'abonne avec son propre signal : la revalidation partagée
+    // n'est annulée que lorsque tous ses appelants ont abandonné
+    return this.revalidations.run(key, signal, async (revalidationSignal) => {
+      const response = await fetcher(entry?.etag, revalidationSignal);
+      const notModified = response.status === 304 && entry;
+      const headers = normalizeHeaders(response.headers);
+      const ttl = options.ttl ?? DEFAULT_TTL;
+      const storedAt = Date.now();
+
+      const updated: CacheEntry<T> = {
+        ...meta,
+        data: notModified ? entry.data : response.data,
+        etag: headers.etag ?? (notModified ? entry.etag : undefined),
+        storedAt,
+        expiresAt: storedAt + ttl,
+        staleUntil: storedAt + ttl + (options.staleWhileRevalidate ?? 0),
+        headers: notModified ? entry.headers : headers,
+      };
+      await this.store.set(key, updated);
+      return updated;
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { GenericAbortSignal } from 'axios';
+import { RequestCancelledError } from './types';
+
+interface TrackedRequest {
+  controller: AbortController;
+  service: string;
+  tags: string[];
+}
+
+export interface TrackedSignal {
+  signal: AbortSignal;
+  release: () => void;
+}
+
+export class CancellationRegistry {
+  private requests = new Set<TrackedRequest>();
+
+  // Chaque requête reçoit son propre contrôleur, lié au signal éventuel de l'appelant
+  track(options: { service: string; tags?: string[]; signal?: GenericAbortSignal }): TrackedSignal {
+    const controller = new AbortController();
+    const tracked: TrackedRequest = { controller, service: options.service, tags: options.tags ?? [] };
+    const { signal } = options;
+    const onAbort = () => controller.abort();
+
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener?.('abort', onAbort);
+    }
+    this.requests.add(tracked);
+
+    return {
+      signal: controller.signal,
+      release: () => {
+        signal?.removeEventListener?.('abort', onAbort);
+        this.requests.delete(tracked);
+      },
+    };
+  }
+
+  cancel(predicate: (request: { service: string; tags: string[] }) => boolean = () => true): number {
+    let cancelled = 0;
+    this.requests.forEach((request) => {
+      if (predicate(request)) {
+        request.controller.abort();
+        this.requests.delete(request);
+        cancelled++;
+      }
+    });
+    return cancelled;
+  }
+
+  get size(): number {
+    return this.requests.size;
+  }
+}
+
+export function sleep(ms: number, signal?: GenericAbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.('abort', onAbort);
+  });
+}
@@ -0,0 +1,118 @@
+import {
+  CircuitBreakerOptions,
+  CircuitOpenError,
+  CircuitState,
+  NetworkError,
+  RequestCancelledError,
+  ServerError,
+  TimeoutError,
+} from './types';
+import { isCancelled } from './retry';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_WINDOW = 60000;
+const DEFAULT_COOLDOWN = 30000;
+
+// Seules les pannes du service comptent : une 404 ou une 422 prouve qu'il répond
+export function isCircuitFailure(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures: number[] = [];
+  private openedAt = 0;
+  private trials = 0;
+
+  constructor(
+    private service: string,
+    private options: CircuitBreakerOptions = {}
+  ) {}
+
+  getState(): CircuitState {
+    // Passage en semi-ouvert à la fin du délai de refroidissement
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldown) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  async execute<T>(request: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+
+    if (state === 'open' || (state === 'half-open' && this.trials >= (this.options.halfOpenRequests ?? 1))) {
+      throw new CircuitOpenError(
+        `Circuit open for service '${this.service}'`,
+        this.service,
+        Math.max(0, this.openedAt + this.cooldown - Date.now())
+      );
+    }
+
+    const isTrial = state === 'half-open';
+    if (isTrial) this.trials++;
+
+    try {
+      const result = await request();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (error instanceof RequestCancelledError || isCancelled(error)) {
+        // Une annulation ne dit rien de l'état du service
+        if (isTrial) this.trials--;
+      } else if ((this.options.isFailure ?? isCircuitFailure)(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    }
+  }
+
+  reset(): void {
+    this.failures = [];
+    this.transition('closed');
+  }
+
+  private get cooldown(): number {
+    return this.options.cooldown ?? DEFAULT_COOLDOWN;
+  }
+
+  private onSuccess(): void {
+    if (this.state === 'half-open') {
+      this.failures = [];
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    const now = Date.now();
+
+    if (this.state === 'half-open') {
+      this.open(now);
+      return;
+    }
+    if (this.state === 'open') return;
+
+    // Fenêtre glissante : seuls les échecs récents comptent
+    const window = this.options.window ?? DEFAULT_WINDOW;
+    this.failures = [...this.failures.filter((time) => now - time < window), now];
+    if (this.failures.length >= (this.options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+      this.open(now);
+    }
+  }
+
+  private open(now: number): void {
+    this.openedAt = now;
+    this.failures = [];
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.trials = 0;
+    if (previous === state) return;
+
+    this.state = state;
+    this.options.onStateChange?.({ service: this.service, state, previousState: previous });
+  }
+}
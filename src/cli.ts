@@ -0,0 +1,78 @@
+import { writeFileSync } from 'fs';
+import { generateClient, loadOpenApiDocument, OpenApiGeneratorOptions } from './openapi';
+
+const USAGE = [
+  'Usage: ak-api-http generate <openapi.json|yaml> [options]',
+  '',
+  'Options:',
+  '  -o, --output <file>            Fichier TypeScript généré (sortie standard par défaut)',
+  '  --service-from <server|tag>    Associe les services aux serveurs ou aux tags (par défaut: server)',
+  '  --service <key=name>           Impose un nom de service pour une URL de serveur ou un tag',
+  '  --import <module>              Module importé par le code généré (par défaut: ak-api-http)',
+].join('\n');
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<number> {
+  const [command, ...args] = argv;
+  if (command !== 'generate') {
+    io.stderr(`${USAGE}\n`);
+    return command === '--help' || command === '-h' ? 0 : 1;
+  }
+
+  let input: string | undefined;
+  let output: string | undefined;
+  const options: OpenApiGeneratorOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '-o':
+      case '--output':
+        output = args[++i];
+        break;
+      case '--service-from':
+        options.serviceFrom = args[++i] === 'tag' ? 'tag' : 'server';
+        break;
+      case '--service': {
+        const [key, name] = (args[++i] ?? '').split(/=(?=[^=]*$)/);
+        options.serviceNames = { ...options.serviceNames, [key]: name };
+        break;
+      }
+      case '--import':
+        options.importFrom = args[++i];
+        break;
+      default:
+        input = arg;
+    }
+  }
+
+  if (!input) {
+    io.stderr(`${USAGE}\n`);
+    return 1;
+  }
+
+  try {
+    const document = await loadOpenApiDocument(input);
+    const code = generateClient(document, options);
+
+    if (output) {
+      writeFileSync(output, code);
+      io.stderr(`Client généré : ${output}\n`);
+    } else {
+      io.stdout(code);
+    }
+    return 0;
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,85 @@
+import { AxiosRequestConfig } from 'axios';
+import {
+  ApiError,
+  ApiRequestConfig,
+  Contract,
+  ContractClient,
+  HttpMethod,
+  OperationDefinition,
+  OperationTypes,
+  RequestConfig,
+  RequestOptions,
+  ResponseSchema,
+  ServiceMap,
+} from './types';
+
+// Fonction curryfiée : les types sont fournis explicitement, le chemin est déduit
+export function operation<TTypes extends OperationTypes = OperationTypes>() {
+  return <TPath extends string, TService extends string = never>(definition: {
+    method: HttpMethod;
+    path: TPath;
+    service?: TService;
+    schema?: ResponseSchema<TTypes['response']>;
+  }): OperationDefinition<TPath, TTypes, TService> => definition;
+}
+
+// Volontairement sans contrainte : un type contextuel élargirait les chemins en `string`.
+// La cohérence des services est vérifiée par `Api.createClient`.
+export function defineContract<TContract>(contract: TContract): TContract {
+  return contract;
+}
+
+export function interpolatePath(path: string, params: Record<string, unknown> = {}): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new ApiError(`Missing path parameter '${name}' for '${path}'`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+// Sépare les options propres à la bibliothèque de la configuration Axios (partagé avec `Api`)
+export function splitRequestOptions<T>(
+  config: ApiRequestConfig<T> = {}
+): RequestOptions<T> & { config: AxiosRequestConfig } {
+  const { schema, retryPolicy, cache, dedupe, signal, tags, priority, ...axiosConfig } = config;
+  return { schema, retryPolicy, cache, dedupe, signal, tags, priority, config: axiosConfig };
+}
+
+function isOperation(value: OperationDefinition | Contract): value is OperationDefinition {
+  return typeof value.method === 'string' && typeof value.path === 'string';
+}
+
+type ContractRequest = (config: RequestConfig<ServiceMap>) => Promise<unknown>;
+
+export function createContractClient<TContract extends Contract>(
+  contract: TContract,
+  request: ContractRequest
+): ContractClient<TContract> {
+  const client: Record<string, unknown> = {};
+
+  Object.entries(contract).forEach(([name, entry]) => {
+    if (!isOperation(entry)) {
+      client[name] = createContractClient(entry, request);
+      return;
+    }
+
+    // Asynchrone : un paramètre de chemin manquant rejette la promesse au lieu de lever une exception
+    client[name] = async (args: Record<string, unknown> = {}, requestConfig?: ApiRequestConfig) => {
+      const { query, body, ...params } = args;
+      const options = splitRequestOptions(requestConfig);
+      return request({
+        ...options,
+        endpoint: interpolatePath(entry.path, params),
+        method: entry.method,
+        data: body,
+        searchParams: query as RequestConfig['searchParams'],
+        service: entry.service,
+        schema: options.schema ?? entry.schema,
+      });
+    };
+  });
+
+  return client as ContractClient<TContract>;
+}
@@ -5,21 +5,106 @@ import {
   RetryableAxiosRequestConfig,
   SearchParams,
   ServiceType,
+  ServiceMap,
+  NoServices,
   RequestConfig,
   GetSessionFunction,
+  RefreshSessionFunction,
   SignOutFunction,
   AuthenticationError,
   ApiError,
+  RequestCancelledError,
+  ResponseValidationError,
+  ResponseSchema,
+  Contract,
+  ContractClient,
   ServiceConfig,
+  ResolvedApiConfig,
+  DefaultServices,
+  ApiRequestConfig,
+  ResolvedRetryPolicy,
+  ApiResponse,
+  Page,
+  PaginateOptions,
+  UploadFields,
+  UploadOptions,
+  DownloadOptions,
+  DownloadResult,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareFunction,
+  SessionData,
+  ApiEvents,
+  ApiEventListener,
+  AuthProvider,
+  AuthRequest,
+  QueueStats,
+  CircuitOpenError,
+  CircuitState,
+  RequestEventContext,
+  RequestSpan,
+  RetryContext,
+  MetricsSnapshot,
+  LogFields,
+  HarDocument,
 } from './types';
+import { getRetryDelay, isCancelled, resolveRetryPolicy, shouldRetry } from './retry';
+import { buildRequestKey, normalizeHeaders, ResponseCache } from './cache';
+import { RequestDeduplicator } from './dedupe';
+import { CancellationRegistry, sleep } from './cancellation';
+import { isolate } from './isolate';
+import { validateResponse } from './validation';
+import { createContractClient, splitRequestOptions } from './contract';
+import { iterateItems, iteratePages, pagePagination } from './pagination';
+import { createApiError } from './errors';
+import { Redactor } from './redact';
+import { MiddlewarePipeline } from './middleware';
+import { EventEmitter } from './events';
+import { getTokenExpiry } from './token';
+import { resolveQuerySerializer, serializeQuery } from './query';
+import { RequestScheduler } from './scheduler';
+import { CircuitBreaker } from './circuit';
+import { getTraceHeaders, noopTracer } from './tracing';
+import { MetricsCollector } from './metrics';
+import { ApiLogger, consoleLogger } from './logger';
+import { HarRecorder } from './har';
+import { buildFormData, getDefaultResponseType, parseContentDisposition, toProgressHandler } from './transfer';
 
-export class Api {
+// Délai avant de retenter un rafraîchissement anticipé qui n'a pas produit de nouveau token
+const REFRESH_RETRY_DELAY = 10000;
+
+export class Api<TServices extends ServiceMap = NoServices> {
   private axiosInstance: AxiosInstance;
   private currentToken: string | null = null;
-  config: Required<ApiConfig>;
+  private tokenExpiresAt: number | null = null;
+  private nextRefreshAttempt = 0;
+  private refreshPromise: Promise<string | null> | null = null;
+  private responseCache: ResponseCache;
+  private deduplicator = new RequestDeduplicator();
+  private cancellation = new CancellationRegistry();
+  private redactor: Redactor;
+  private middlewares = new MiddlewarePipeline();
+  private scheduler: RequestScheduler;
+  private circuits = new Map<string, CircuitBreaker>();
+  private requestCounter = 0;
+  private metrics: MetricsCollector | null = null;
+  private har: HarRecorder | null = null;
+  // Authentification par défaut : token Bearer issu de getSession/refreshSession
+  private sessionAuth: AuthProvider = {
+    apply: async (request) => {
+      const token = await this.getCurrentToken();
+      if (token) {
+        request.headers.Authorization = `Bearer ${token}`;
+      }
+    },
+  };
+  private logger: ApiLogger;
+  private events = new EventEmitter<ApiEvents>((error) => this.logger.warn('Erreur dans un écouteur d\'événement', { error }));
+  config: ResolvedApiConfig<TServices>;
 
-  constructor(options: ApiConfig) {
-    if (options.enableAuth) {
+  constructor(options: ApiConfig<TServices>) {
+    // Un fournisseur `auth` personnalisé remplace l'authentification par session
+    if (options.enableAuth && !options.auth) {
       if (!options.getSession || !options.signOut) {
         throw new Error('getSession and signOut functions are required when enableAuth is true');
       }
@@ -35,6 +120,17 @@ export class Api {
       enableAuth: options.enableAuth ?? true,
       maxRetries: options.maxRetries ?? 3,
       retryDelay: options.retryDelay ?? 1000,
+      retryPolicy: options.retryPolicy ?? {},
+      cache: options.cache ?? {},
+      dedupe: options.dedupe ?? true,
+      redact: options.redact ?? {},
+      querySerializer: options.querySerializer ?? serializeQuery,
+      scheduler: options.scheduler ?? {},
+      tracer: options.tracer ?? noopTracer,
+      metrics: options.metrics ?? false,
+      har: options.har ?? false,
+      auth: options.auth ?? this.sessionAuth,
+      tokenRefreshSkew: options.tokenRefreshSkew ?? 30000,
       services: {
         public: {
           url: options.baseUrl,
@@ -45,32 +141,66 @@ export class Api {
           enableAuth: true,
         },
         ...options.services,
-      },
+      } as TServices & DefaultServices,
       getSession: options.getSession ?? (async () => null),
-      signOut: options.signOut ?? (async () => {console.log('Sign out');}),
-      onRequestError: options.onRequestError ?? (() => {console.log('');}),
+      refreshSession: options.refreshSession ?? (async () => null),
+      signOut: options.signOut ?? (async () => undefined),
+      onRequestError: options.onRequestError ?? (() => undefined),
       debug: options.debug ?? false,
+      logger: options.logger,
+      logLevel: options.logLevel,
       onRequest: options.onRequest ?? ((config) => config),
       onResponse: options.onResponse ?? ((response) => response),
+      adapter: options.adapter,
     };
 
+    this.responseCache = new ResponseCache(this.config.cache);
+    this.redactor = new Redactor(this.config.redact);
+    this.logger = this.createLogger();
+    this.setupMetrics();
+    this.setupHar();
+    this.scheduler = new RequestScheduler(this.config.scheduler, (service) => {
+      const services: ServiceMap = this.config.services;
+      return services[service]?.scheduler;
+    });
+
     this.axiosInstance = axios.create({
       baseURL: this.config.enableAuth
         ? this.config.services.private.url
         : this.config.services.public.url,
       timeout: this.config.timeout,
       headers: this.config.headers,
+      adapter: this.config.adapter,
     });
 
-    if (this.config.enableAuth) {
-      this.setupInterceptors();
-    }
+    // Re-tentatives, hooks et normalisation des erreurs s'appliquent avec ou sans authentification
+    this.setupInterceptors();
   }
 
-  private log(message: string, data?: any): void {
-    if (this.config.debug) {
-      console.log(`[Api] ${message}`, data);
-    }
+  private setupMetrics(): void {
+    this.metrics?.dispose();
+    const { metrics } = this.config;
+    this.metrics = metrics
+      ? new MetricsCollector(
+        this.events,
+        metrics === true ? {} : metrics,
+        (error) => this.logger.warn('Erreur lors de l\'export des métriques', { error })
+      )
+      : null;
+  }
+
+  private setupHar(): void {
+    const { har } = this.config;
+    this.har = har ? new HarRecorder(har === true ? {} : har, this.redactor) : null;
+  }
+
+  private createLogger(): ApiLogger {
+    const { logger, logLevel, debug } = this.config;
+    return new ApiLogger(
+      logger ?? (debug ? consoleLogger : null),
+      logLevel ?? (debug ? 'debug' : 'info'),
+      this.redactor
+    );
   }
 
   private setupInterceptors(): void {
@@ -103,22 +233,16 @@ export class Api {
             internalConfig.headers = {} as any;
           }
 
-          // Déterminer le service ciblé
-          const serviceConfig = this.getServiceByUrl(internalConfig.baseURL as string);
-
-          if (serviceConfig && serviceConfig.enableAuth) {
-            const token = await this.getCurrentToken();
-            if (token) {
-              // Mettre à jour les headers avec le token
-              Object.assign(internalConfig.headers, {
-                Authorization: `Bearer ${token}`,
-              });
-            }
-          }
+          // Étape d'authentification : réappliquée à chaque tentative (re-tentatives et rejeu après 401)
+          await this.applyAuth(internalConfig);
+          (internalConfig as RetryableAxiosRequestConfig)._startTime = Date.now();
 
           return internalConfig;
         } catch (error) {
-          this.log('Erreur dans l\'intercepteur de requête personnalisé', error);
+          this.logger.error('Erreur dans l\'intercepteur de requête personnalisé', {
+            ...this.getLogFields(config as RetryableAxiosRequestConfig),
+            error,
+          });
           return Promise.reject(error);
         }
       },
@@ -127,16 +251,27 @@ export class Api {
 
     this.axiosInstance.interceptors.response.use(
       async (response) => {
+        this.har?.record(response.config as RetryableAxiosRequestConfig, response);
         try {
           return await Promise.resolve(this.config.onResponse(response));
         } catch (error) {
-          this.log('Erreur dans l\'intercepteur de réponse personnalisé (succès)', error);
+          this.logger.error('Erreur dans l\'intercepteur de réponse personnalisé (succès)', {
+            ...this.getLogFields(response.config as RetryableAxiosRequestConfig),
+            status: response.status,
+            error,
+          });
           return Promise.reject(error);
         }
       },
       async (error: AxiosError): Promise<any> => {
         const originalRequest = error.config as RetryableAxiosRequestConfig;
 
+        // Une annulation n'est pas une erreur : pas de retry ni d'onRequestError
+        if (isCancelled(error)) {
+          this.logger.debug('Requête annulée', originalRequest ? this.getLogFields(originalRequest) : undefined);
+          return Promise.reject(new RequestCancelledError());
+        }
+
         // Si pas de config dans l'erreur, appliquer l'intercepteur et rejeter
         if (!originalRequest) {
           try {
@@ -151,14 +286,49 @@ export class Api {
 
             await Promise.resolve(this.config.onResponse(responseForInterceptor));
           } catch (interceptorError) {
-            this.log('Erreur dans l\'intercepteur de réponse personnalisé (erreur sans config)', interceptorError);
+            this.logger.error('Erreur dans l\'intercepteur de réponse personnalisé (erreur sans config)', {
+              error: interceptorError,
+            });
           }
           return Promise.reject(error);
         }
 
-        if (error.response?.status === 401) {
-          this.log('Erreur 401 détectée, déconnexion de l\'utilisateur.');
-          if (this.config.signOut) {
+        // Chaque tentative (re-tentatives, rejeu après 401) est une entrée distincte
+        this.har?.record(originalRequest, error.response, error);
+
+        const authProvider = error.response?.status === 401 ? this.getAuthProvider(originalRequest) : null;
+        if (authProvider) {
+          const isSession = authProvider === this.sessionAuth;
+
+          if (!originalRequest._retry) {
+            originalRequest._retry = true;
+            if (isSession) {
+              const token = await this.getTokenAfterUnauthorized(originalRequest);
+              if (token) {
+                this.logger.info('Session rafraîchie, nouvelle tentative', this.getLogFields(originalRequest));
+                originalRequest.headers = {
+                  ...originalRequest.headers,
+                  Authorization: `Bearer ${token}`,
+                };
+                return this.axiosInstance(originalRequest);
+              }
+            } else if (await this.refreshProvider(authProvider, originalRequest._service)) {
+              this.logger.info('Authentification rafraîchie, nouvelle tentative', this.getLogFields(originalRequest));
+              return this.axiosInstance(originalRequest);
+            }
+          }
+
+          // La déconnexion ne concerne que l'authentification par session
+          if (isSession) {
+            this.logger.warn('Erreur 401 détectée, déconnexion de l\'utilisateur', {
+              ...this.getLogFields(originalRequest),
+              status: 401,
+            });
+            this.events.emit('auth:signout', {
+              requestId: originalRequest._requestId,
+              service: originalRequest._service,
+              url: originalRequest.url || '',
+            });
             await this.config.signOut();
           }
           try {
@@ -172,36 +342,61 @@ export class Api {
 
             await Promise.resolve(this.config.onResponse(responseForInterceptor));
           } catch (interceptorError) {
-            this.log('Erreur dans l\'intercepteur de réponse personnalisé (401)', interceptorError);
+            this.logger.error('Erreur dans l\'intercepteur de réponse personnalisé (401)', {
+              ...this.getLogFields(originalRequest),
+              error: interceptorError,
+            });
           }
-          return Promise.reject(new AuthenticationError('Unauthorized, user logged out.'));
+          const { context } = createApiError(error, {
+            endpoint: originalRequest.url || '',
+            method: (originalRequest.method?.toUpperCase() as HttpMethod) || 'GET',
+            service: originalRequest._service,
+          }, this.redactor);
+          const message = isSession ? 'Unauthorized, user logged out.' : 'Unauthorized';
+          return Promise.reject(new AuthenticationError(message, context, error));
         }
 
-        if (
-          error.response?.status &&
-          error.response.status >= 500 &&
-          (originalRequest._retryCount ?? 0) < this.config.maxRetries
-        ) {
-          originalRequest._retryCount = (originalRequest._retryCount || 0) + 1;
-          this.log(
-            `Tentative de réessai #${originalRequest._retryCount} pour ${originalRequest.url}`
-          );
-
-          await new Promise((resolve) => setTimeout(resolve, this.config.retryDelay));
+        const retryPolicy = this.getRetryPolicy(originalRequest);
+        const attempt = (originalRequest._retryCount ?? 0) + 1;
+        if (shouldRetry(error, retryPolicy, attempt)) {
+          const delay = getRetryDelay(error, retryPolicy, attempt);
+          originalRequest._retryCount = attempt;
+          this.logger.warn(`Nouvelle tentative dans ${delay}ms`, {
+            ...this.getLogFields(originalRequest),
+            status: error.response?.status,
+            attempt,
+          });
+
+          const retryContext: RetryContext = {
+            attempt,
+            delay,
+            error,
+            method: (originalRequest.method?.toUpperCase() as HttpMethod) || 'GET',
+            url: originalRequest.url || '',
+            service: originalRequest._service,
+          };
+          retryPolicy.onRetry?.(retryContext);
+          this.events.emit('retry', {
+            ...retryContext,
+            requestId: originalRequest._requestId,
+            status: error.response?.status,
+          });
+
+          await sleep(delay, originalRequest.signal);
           return this.axiosInstance(originalRequest);
         }
 
         // CRÉER l'ApiError ici avant de le rejeter
-        const apiError = this.createApiError(error, {
+        const apiError = createApiError(error, {
           endpoint: originalRequest.url || '',
           method: (originalRequest.method?.toUpperCase() as HttpMethod) || 'GET',
-          service: 'private',
-        });
+          service: originalRequest._service,
+        }, this.redactor);
 
         this.handleRequestError(apiError, {
           endpoint: originalRequest.url || '',
           method: (originalRequest.method?.toUpperCase() as HttpMethod) || 'GET',
-          service: 'private',
+          service: originalRequest._service,
         });
 
         try {
@@ -215,7 +410,10 @@ export class Api {
 
           await Promise.resolve(this.config.onResponse(responseForInterceptor));
         } catch (interceptorError) {
-          this.log('Erreur dans l\'intercepteur de réponse personnalisé (erreur finale)', interceptorError);
+          this.logger.error('Erreur dans l\'intercepteur de réponse personnalisé (erreur finale)', {
+            ...this.getLogFields(originalRequest),
+            error: interceptorError,
+          });
         }
 
         // Rejeter avec l'ApiError au lieu de l'erreur Axios originale
@@ -227,35 +425,151 @@ export class Api {
   async getCurrentToken(): Promise<string | null> {
     if (!this.config.enableAuth) return null;
 
-    if (this.currentToken) return this.currentToken;
+    // Un rafraîchissement est en cours : attendre le nouveau token, ou garder celui encore valide
+    if (this.refreshPromise) {
+      const refreshed = await this.refreshPromise;
+      return refreshed ?? this.getValidToken();
+    }
+
+    if (this.currentToken && !this.isTokenExpiring()) return this.currentToken;
+
+    // Token proche de l'expiration mais encore valide : le rafraîchir sans y renoncer en cas d'échec
+    if (this.currentToken && !this.isTokenExpired()) {
+      if (Date.now() >= this.nextRefreshAttempt) await this.refreshAhead();
+      return this.getValidToken() ?? this.loadSession();
+    }
+
+    // Token expiré : le rafraîchir avant de l'envoyer
+    if (this.currentToken) {
+      const refreshed = await this.refreshToken(true);
+      if (refreshed) return refreshed;
+    }
+
+    return this.loadSession();
+  }
 
+  private getValidToken(): string | null {
+    return this.currentToken && !this.isTokenExpired() ? this.currentToken : null;
+  }
+
+  private async loadSession(): Promise<string | null> {
     try {
       const session = await this.config.getSession();
-      const token = session?.accessToken || null;
+      if (!session?.accessToken) return null;
 
-      if (token) {
-        this.currentToken = token;
-      }
-      return token;
+      this.setCurrentToken(session.accessToken, session.expiresAt);
+      // Ne jamais envoyer un token que l'on sait expiré
+      return this.getValidToken();
     } catch (error) {
-      this.log('Erreur lors de la récupération de la session', error);
+      this.logger.error('Erreur lors de la récupération de la session', { error });
       return null;
     }
   }
 
-  private buildUrl(endpoint: string, searchParams?: SearchParams): string {
-    const cleanEndpoint = endpoint.trim();
+  private async refreshAhead(): Promise<void> {
+    // Les requêtes suivantes gardent le token actuel au lieu de relancer un rafraîchissement
+    this.nextRefreshAttempt = Date.now() + REFRESH_RETRY_DELAY;
 
-    if (!searchParams) return cleanEndpoint;
+    if (await this.refreshToken(true)) return;
+    // Sans rafraîchissement, la session de l'application a peut-être déjà un nouveau token
+    await this.loadSession();
+  }
+
+  private setCurrentToken(token: string | null, expiresAt?: SessionData['expiresAt']): void {
+    const previousToken = this.currentToken;
+    this.currentToken = token;
+    this.tokenExpiresAt = token ? getTokenExpiry(token, expiresAt) : null;
+
+    if (token !== previousToken) {
+      this.nextRefreshAttempt = 0;
+      this.events.emit('tokenChanged', { token, previousToken, expiresAt: this.tokenExpiresAt });
+    }
+  }
+
+  private isTokenExpired(): boolean {
+    return this.tokenExpiresAt !== null && Date.now() >= this.tokenExpiresAt;
+  }
+
+  private isTokenExpiring(): boolean {
+    return this.tokenExpiresAt !== null && Date.now() >= this.tokenExpiresAt - this.config.tokenRefreshSkew;
+  }
 
-    const filteredParams: Record<string, string> = {};
-    Object.entries(searchParams).forEach(([key, value]) => {
-      if (value !== undefined && value !== null && value !== '') {
-        filteredParams[key] = String(value);
+  private getRetryPolicy(requestConfig: RetryableAxiosRequestConfig): ResolvedRetryPolicy {
+    const services: ServiceMap = this.config.services;
+    const serviceConfig = requestConfig._service ? services[requestConfig._service] : undefined;
+
+    // Priorité : requête > service > configuration globale
+    return resolveRetryPolicy(
+      { maxRetries: this.config.maxRetries, retryDelay: this.config.retryDelay },
+      this.config.retryPolicy,
+      { maxRetries: serviceConfig?.maxRetries, retryDelay: serviceConfig?.retryDelay },
+      serviceConfig?.retryPolicy,
+      requestConfig._retryPolicy
+    );
+  }
+
+  private async getTokenAfterUnauthorized(
+    originalRequest: RetryableAxiosRequestConfig
+  ): Promise<string | null> {
+    // La session a déjà été rafraîchie par une autre requête depuis l'envoi de celle-ci
+    const sentAuthorization = originalRequest.headers?.Authorization;
+    if (this.currentToken && sentAuthorization && sentAuthorization !== `Bearer ${this.currentToken}`) {
+      return this.currentToken;
+    }
+
+    return this.refreshToken();
+  }
+
+  // `keepToken` : un échec conserve le token actuel (rafraîchissement anticipé), sinon il est abandonné (401)
+  private refreshToken(keepToken = false): Promise<string | null> {
+    // Un seul rafraîchissement à la fois : les autres requêtes attendent le même résultat
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runRefreshSession(keepToken).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async runRefreshSession(keepToken: boolean): Promise<string | null> {
+    const startTime = Date.now();
+    let token: string | null = null;
+    try {
+      this.logger.debug('Rafraîchissement de la session');
+      const session = await this.config.refreshSession();
+      if (session?.accessToken) {
+        this.setCurrentToken(session.accessToken, session.expiresAt);
+        token = this.getValidToken();
+      } else if (!keepToken) {
+        this.setCurrentToken(null);
       }
-    });
+    } catch (error) {
+      this.logger.error('Erreur lors du rafraîchissement de la session', { error });
+      if (!keepToken) this.setCurrentToken(null);
+    }
+
+    this.events.emit('auth:refresh', { source: 'session', success: !!token, duration: Date.now() - startTime });
+    return token;
+  }
 
-    const queryString = new URLSearchParams(filteredParams).toString();
+  private async refreshProvider(provider: AuthProvider, service = 'private'): Promise<boolean> {
+    if (!provider.refresh) return false;
+
+    const startTime = Date.now();
+    const success = await provider.refresh();
+    this.events.emit('auth:refresh', { source: service, success, duration: Date.now() - startTime });
+    return success;
+  }
+
+  private buildUrl(endpoint: string, searchParams: SearchParams | undefined, service: ServiceType<TServices>): string {
+    const cleanEndpoint = endpoint.trim();
+
+    if (!searchParams) return cleanEndpoint;
+
+    // Le sérialiseur du service prime sur celui de l'instance
+    const services: ServiceMap = this.config.services;
+    const serialize = resolveQuerySerializer(services[service]?.querySerializer ?? this.config.querySerializer);
+    const queryString = serialize(searchParams);
     return queryString ? `${cleanEndpoint}?${queryString}` : cleanEndpoint;
   }
 
@@ -263,124 +577,495 @@ export class Api {
     method: HttpMethod,
     url: string,
     data?: any,
-    config?: AxiosRequestConfig
-  ): Promise<T> {
+    config: RetryableAxiosRequestConfig = {}
+  ): Promise<ApiResponse<T>> {
+    const service = config._service ?? 'private';
+    const context: MiddlewareContext = {
+      method,
+      url,
+      service,
+      data,
+      headers: { ...config.headers } as Record<string, string>,
+      config,
+      state: {},
+    };
+
+    // Les re-tentatives se font dans l'appel Axios : elles gardent la place obtenue
+    const schedule = () => this.scheduler.schedule(
+      { service, priority: config._priority, signal: config.signal },
+      () => this.middlewares.run(context, (ctx) => this.dispatchRequest<T>(ctx))
+    );
+
+    const circuit = this.getCircuit(service);
+    if (!circuit) return schedule();
+
+    try {
+      // Le disjoncteur voit le résultat final, après les re-tentatives
+      return await circuit.execute(schedule);
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        this.handleRequestError(error, { endpoint: url, method, service });
+      }
+      throw error;
+    }
+  }
+
+  private getCircuit(service: string): CircuitBreaker | null {
+    const services: ServiceMap = this.config.services;
+    const options = services[service]?.circuitBreaker;
+    if (!options) return null;
+
+    let circuit = this.circuits.get(service);
+    if (!circuit) {
+      circuit = new CircuitBreaker(service, options === true ? {} : options);
+      this.circuits.set(service, circuit);
+    }
+    return circuit;
+  }
+
+  private async dispatchRequest<T>(context: MiddlewareContext): Promise<ApiResponse<T>> {
+    const { method, url, data } = context;
     const lowercaseMethod = method.toLowerCase() as Lowercase<HttpMethod>;
 
     const requestConfig: RetryableAxiosRequestConfig = {
-      ...config,
+      ...context.config,
+      headers: context.headers,
       _retryCount: 0,
     };
 
+    let response: AxiosResponse<T>;
     switch (lowercaseMethod) {
       case 'post':
-        return (await this.axiosInstance.post<T>(url, data, requestConfig)).data;
+        response = await this.axiosInstance.post<T>(url, data, requestConfig);
+        break;
       case 'put':
-        return (await this.axiosInstance.put<T>(url, data, requestConfig)).data;
+        response = await this.axiosInstance.put<T>(url, data, requestConfig);
+        break;
       case 'patch':
-        return (await this.axiosInstance.patch<T>(url, data, requestConfig)).data;
+        response = await this.axiosInstance.patch<T>(url, data, requestConfig);
+        break;
       case 'delete':
-        return (await this.axiosInstance.delete<T>(url, requestConfig)).data;
+        response = await this.axiosInstance.delete<T>(url, requestConfig);
+        break;
       case 'get':
       default:
-        return (await this.axiosInstance.get<T>(url, requestConfig)).data;
+        response = await this.axiosInstance.get<T>(url, requestConfig);
     }
+
+    return { data: response.data, status: response.status, headers: normalizeHeaders(response.headers) };
+  }
+
+  async request<T = any>(requestConfig: RequestConfig<TServices, T>): Promise<T> {
+    return (await this.send<T>(requestConfig)).data;
   }
 
-  async request<T = any>({
+  // Comme `request`, mais conserve le statut et les en-têtes de la réponse
+  private async send<T>({
     endpoint,
     method,
     data,
     searchParams,
     service = 'private',
     config = {},
-  }: RequestConfig): Promise<T> {
-    this.log(`${method} ${endpoint}`, { data, searchParams, service });
+    schema,
+    retryPolicy,
+    cache,
+    dedupe,
+    signal,
+    tags,
+    priority,
+  }: RequestConfig<TServices, T>): Promise<ApiResponse<T>> {
+    const eventContext: RequestEventContext = {
+      requestId: String(++this.requestCounter),
+      method,
+      endpoint,
+      service,
+      tags: tags ?? [],
+    };
+    const startTime = Date.now();
+    const span = this.startSpan(eventContext);
+    this.logger.debug(`${method} ${endpoint}`, {
+      requestId: eventContext.requestId,
+      service,
+      method,
+      url: endpoint,
+      searchParams,
+      data,
+    });
+    this.events.emit('request:start', { ...eventContext, startTime });
+
+    const tracked = this.cancellation.track({ service, tags, signal: signal ?? config.signal });
+    try {
+      const response = await this.performRequest<T>({
+        endpoint,
+        method,
+        data,
+        searchParams,
+        service,
+        config: {
+          ...config,
+          headers: { ...config.headers, ...getTraceHeaders(span) },
+          signal: tracked.signal,
+        },
+        retryPolicy,
+        cache,
+        dedupe,
+        priority,
+      }, eventContext.requestId);
+
+      const result = schema
+        ? { ...response, data: await this.validateResponseData(schema, response.data, { endpoint, method, service }) }
+        : response;
+      this.endRequest(eventContext, startTime, span, { status: result.status });
+      return result;
+    } catch (error) {
+      const failure = isCancelled(error) ? new RequestCancelledError() : error;
+      this.endRequest(eventContext, startTime, span, {
+        status: failure instanceof ApiError ? failure.status : undefined,
+        error: failure,
+      });
+      throw failure;
+    } finally {
+      tracked.release();
+    }
+  }
+
+  private startSpan(context: RequestEventContext): RequestSpan | undefined {
+    return isolate(
+      () => this.config.tracer.startSpan(context),
+      (error) => this.logger.warn('Erreur au démarrage du span de traçage', { requestId: context.requestId, error })
+    );
+  }
+
+  private endRequest(
+    context: RequestEventContext,
+    startTime: number,
+    span: RequestSpan | undefined,
+    result: { status?: number; error?: unknown }
+  ): void {
+    const duration = Date.now() - startTime;
+
+    isolate(
+      () => span?.end?.({ ...result, duration }),
+      (error) => this.logger.warn('Erreur à la fin du span de traçage', { requestId: context.requestId, error })
+    );
+
+    const { error } = result;
+    this.logger.debug(`${context.method} ${context.endpoint} terminée`, {
+      requestId: context.requestId,
+      service: context.service,
+      method: context.method,
+      url: context.endpoint,
+      status: result.status,
+      durationMs: duration,
+    });
+    if (error instanceof ApiError && !(error instanceof RequestCancelledError)) {
+      this.events.emit('error', { ...context, startTime, duration, error });
+    }
+    this.events.emit('request:end', { ...context, ...result, startTime, duration });
+  }
+
+  private async performRequest<T>({
+    endpoint,
+    method,
+    data,
+    searchParams,
+    service = 'private',
+    config = {},
+    retryPolicy,
+    cache,
+    dedupe,
+    priority,
+  }: RequestConfig<TServices>, requestId?: string): Promise<ApiResponse<T>> {
+    const url = this.buildUrl(endpoint, searchParams, service);
+    const serviceConfig = await this.getServiceConfig(service, config, { method, url, data });
+    const requestConfig: RetryableAxiosRequestConfig = {
+      ...serviceConfig,
+      _service: service,
+      _retryPolicy: retryPolicy,
+      _priority: priority,
+      _requestId: requestId,
+    };
+    const key = await this.buildKey(method, service, url, requestConfig);
+    const shouldDedupe = method === 'GET' && (dedupe ?? this.config.dedupe);
+
+    if (method === 'GET' && cache) {
+      const entry = await this.responseCache.fetchEntry<T>(
+        key,
+        { service, url },
+        cache === true ? {} : cache,
+        (etag, signal) => this.sendRequest<T>(etag ? `${key} ${etag}` : key, shouldDedupe, method, url, data, {
+          ...requestConfig,
+          // La revalidation est partagée : elle ne dépend pas du signal du premier appelant
+          signal,
+          headers: etag
+            ? { ...requestConfig.headers, 'If-None-Match': etag }
+            : requestConfig.headers,
+          // Un 304 est une réponse valide lors d'une revalidation
+          validateStatus: (status) => (status >= 200 && status < 300) || (!!etag && status === 304),
+        }),
+        requestConfig.signal
+      );
+      return { data: entry.data, status: 200, headers: entry.headers ?? {} };
+    }
+
+    return this.sendRequest<T>(key, shouldDedupe, method, url, data, requestConfig);
+  }
+
+  private async validateResponseData<T>(
+    schema: ResponseSchema<T>,
+    data: unknown,
+    context: { endpoint: string; method: HttpMethod; service: string }
+  ): Promise<T> {
+    const result = await validateResponse(schema, data);
+    if (result.success) return result.data;
 
-    const serviceConfig = await this.getServiceConfig(service, config);
-    const url = this.buildUrl(endpoint, searchParams);
+    const error = new ResponseValidationError(
+      `Invalid response for ${context.method} ${context.endpoint}`,
+      result.issues,
+      undefined,
+      { ...context, responseData: this.redactor.redactBody(data) }
+    );
+    this.handleRequestError(error, context);
+    throw error;
+  }
 
-    return await this.executeRequest<T>(method, url, data, serviceConfig);
+  private sendRequest<T>(
+    key: string,
+    dedupe: boolean,
+    method: HttpMethod,
+    url: string,
+    data: unknown,
+    config: RetryableAxiosRequestConfig
+  ): Promise<ApiResponse<T>> {
+    if (!dedupe) {
+      return this.executeRequest<T>(method, url, data, config);
+    }
+
+    // Les appels identiques simultanés partagent la même requête HTTP
+    return this.deduplicator.run(key, config.signal, (signal) =>
+      this.executeRequest<T>(method, url, data, { ...config, signal })
+    );
   }
 
   public get<T = any>(
     endpoint: string,
     searchParams?: SearchParams,
-    service: 'public' | 'private' | ServiceType = 'private',
-    config?: AxiosRequestConfig
+    service: ServiceType<TServices> = 'private',
+    config?: ApiRequestConfig<T>
   ): Promise<T> {
     return this.request<T>({
       endpoint,
       method: 'GET',
       searchParams,
       service,
-      config,
+      ...splitRequestOptions(config),
     });
   }
 
   public post<T = any>(
     endpoint: string,
     data?: any,
-    service: 'public' | 'private' | ServiceType = 'private',
-    config?: AxiosRequestConfig
+    service: ServiceType<TServices> = 'private',
+    config?: ApiRequestConfig<T>
   ): Promise<T> {
     return this.request<T>({
       endpoint,
       method: 'POST',
       data,
       service,
-      config,
+      ...splitRequestOptions(config),
     });
   }
 
   public put<T = any>(
     endpoint: string,
     data?: any,
-    service: 'public' | 'private' | ServiceType = 'private',
-    config?: AxiosRequestConfig
+    service: ServiceType<TServices> = 'private',
+    config?: ApiRequestConfig<T>
   ): Promise<T> {
     return this.request<T>({
       endpoint,
       method: 'PUT',
       data,
       service,
-      config,
+      ...splitRequestOptions(config),
     });
   }
 
   public patch<T = any>(
     endpoint: string,
     data?: any,
-    service: 'public' | 'private' | ServiceType = 'private',
-    config?: AxiosRequestConfig
+    service: ServiceType<TServices> = 'private',
+    config?: ApiRequestConfig<T>
   ): Promise<T> {
     return this.request<T>({
       endpoint,
       method: 'PATCH',
       data,
       service,
-      config,
+      ...splitRequestOptions(config),
     });
   }
 
   public delete<T = any>(
     endpoint: string,
-    service: 'public' | 'private' | ServiceType = 'private',
-    config?: AxiosRequestConfig
+    service: ServiceType<TServices> = 'private',
+    config?: ApiRequestConfig<T>
   ): Promise<T> {
     return this.request<T>({
       endpoint,
       method: 'DELETE',
       service,
-      config,
+      ...splitRequestOptions(config),
+    });
+  }
+
+  public paginate<TItem = unknown, TData = unknown>(
+    endpoint: string,
+    options: PaginateOptions<TServices, TItem, TData> = {}
+  ): AsyncIterable<TItem> {
+    return iterateItems(this.paginatePages<TItem, TData>(endpoint, options));
+  }
+
+  public paginatePages<TItem = unknown, TData = unknown>(
+    endpoint: string,
+    options: PaginateOptions<TServices, TItem, TData> = {}
+  ): AsyncIterable<Page<TItem, TData>> {
+    const {
+      searchParams = {},
+      service = 'private',
+      strategy = pagePagination<TItem, TData>(),
+      maxPages,
+      maxItems,
+      ...requestOptions
+    } = options;
+
+    return iteratePages(
+      (page) => this.send<TData>({
+        ...requestOptions,
+        endpoint: page.endpoint,
+        method: 'GET',
+        searchParams: page.searchParams,
+        service,
+      }),
+      { endpoint, searchParams },
+      strategy,
+      { maxPages, maxItems }
+    );
+  }
+
+  public upload<T = unknown>(
+    endpoint: string,
+    fields: FormData | UploadFields,
+    options: UploadOptions<TServices, T> = {}
+  ): Promise<T> {
+    const { method = 'POST', service = 'private', config = {}, onProgress, ...requestOptions } = options;
+
+    return this.request<T>({
+      ...requestOptions,
+      endpoint,
+      method,
+      data: buildFormData(fields),
+      service,
+      config: {
+        ...config,
+        // Remplace l'en-tête JSON par défaut : Axios complète la frontière (boundary) du multipart
+        headers: { ...config.headers, 'Content-Type': 'multipart/form-data' },
+        onUploadProgress: toProgressHandler(onProgress) ?? config.onUploadProgress,
+      },
+    });
+  }
+
+  public async download<T = Blob>(
+    endpoint: string,
+    options: DownloadOptions<TServices> = {}
+  ): Promise<DownloadResult<T>> {
+    const {
+      searchParams,
+      service = 'private',
+      config = {},
+      onProgress,
+      responseType = getDefaultResponseType(),
+      ...requestOptions
+    } = options;
+
+    // Un flux ne peut pas être partagé entre plusieurs appelants ni mis en cache
+    const response = await this.send<T>({
+      ...requestOptions,
+      endpoint,
+      method: 'GET',
+      searchParams,
+      service,
+      dedupe: false,
+      config: {
+        ...config,
+        responseType,
+        onDownloadProgress: toProgressHandler(onProgress) ?? config.onDownloadProgress,
+      },
     });
+    const size = Number(response.headers['content-length']);
+
+    return {
+      data: response.data,
+      filename: parseContentDisposition(response.headers['content-disposition']),
+      contentType: response.headers['content-type'],
+      size: Number.isNaN(size) ? undefined : size,
+    };
+  }
+
+  private getAuthProvider(requestConfig: RetryableAxiosRequestConfig): AuthProvider | null {
+    const services: ServiceMap = this.config.services;
+    const serviceConfig = requestConfig._service
+      ? services[requestConfig._service]
+      : this.getServiceByUrl(requestConfig.baseURL as string);
+
+    if (!serviceConfig || serviceConfig.enableAuth === false) return null;
+    // Un fournisseur propre au service active l'authentification pour ce service, même si `enableAuth` global est désactivé
+    if (serviceConfig.auth) return serviceConfig.auth;
+    if (!this.config.enableAuth) return null;
+    return serviceConfig.enableAuth ? this.config.auth : null;
+  }
+
+  private async applyAuth(requestConfig: RetryableAxiosRequestConfig): Promise<void> {
+    const provider = this.getAuthProvider(requestConfig);
+    if (!provider) return;
+
+    const request: AuthRequest = {
+      method: (requestConfig.method?.toUpperCase() as HttpMethod) || 'GET',
+      url: requestConfig.url ?? '',
+      baseURL: requestConfig.baseURL,
+      headers: {},
+      params: {},
+      data: requestConfig.data,
+      service: requestConfig._service,
+    };
+    await provider.apply(request);
+
+    // Tout ce que le fournisseur ajoute est un identifiant : masqué dans les exports
+    requestConfig._authHeaders = Object.keys(request.headers);
+    requestConfig._authParams = Object.keys(request.params);
+    requestConfig.headers = Object.assign(requestConfig.headers ?? {}, request.headers);
+    if (Object.keys(request.params).length) {
+      requestConfig.params = { ...requestConfig.params, ...request.params };
+    }
+  }
+
+  private getLogFields(requestConfig: RetryableAxiosRequestConfig): LogFields {
+    return {
+      requestId: requestConfig._requestId,
+      service: requestConfig._service,
+      method: requestConfig.method?.toUpperCase() as HttpMethod | undefined,
+      url: requestConfig.url,
+    };
   }
 
   private getServiceByUrl(
     url: string
   ): ServiceConfig | null {
-    for (const serviceKey in this.config.services) {
-      const service = this.config.services[serviceKey as keyof typeof this.config.services];
+    const services: ServiceMap = this.config.services;
+    for (const serviceKey in services) {
+      const service = services[serviceKey];
       if (service?.url === url) {
         return service;
       }
@@ -389,54 +1074,84 @@ export class Api {
   }
 
   private async getServiceConfig(
-    service: 'public' | 'private' | ServiceType,
-    config: AxiosRequestConfig
-  ): Promise<AxiosRequestConfig> {
-    const serviceConfig = this.config.services[service];
+    service: ServiceType<TServices>,
+    config: AxiosRequestConfig,
+    request: { method: HttpMethod; url: string; data?: unknown }
+  ): Promise<RetryableAxiosRequestConfig> {
+    const services: ServiceMap = this.config.services;
+    const serviceConfig = services[service];
 
     if (!serviceConfig) {
       throw new ApiError(`Service '${service}' not found in configuration`);
     }
 
-    const headers = { ...config.headers } as InternalAxiosRequestConfig['headers'];
+    // Les en-têtes globaux sont ceux de l'instance Axios : service puis requête les surchargent
+    const headers = { ...serviceConfig.headers, ...config.headers } as InternalAxiosRequestConfig['headers'];
+    const resolved: AxiosRequestConfig = {
+      ...config,
+      baseURL: this.getServiceBaseUrl(serviceConfig),
+      timeout: config.timeout ?? serviceConfig.timeout,
+      headers,
+    };
 
-    if (serviceConfig.enableAuth && this.config.enableAuth) {
-      const token = await this.getCurrentToken();
-      if (token) {
-        headers.Authorization = `Bearer ${token}`;
-      }
-    }
+    // Appliquée dès maintenant pour que le cache, la déduplication et les middlewares voient l'identité
+    const authConfig: RetryableAxiosRequestConfig = { ...resolved, ...request, _service: service };
+    await this.applyAuth(authConfig);
 
     return {
-      ...config,
-      baseURL: serviceConfig.url,
-      headers,
+      ...resolved,
+      headers: authConfig.headers,
+      params: authConfig.params,
+      _authHeaders: authConfig._authHeaders,
+      _authParams: authConfig._authParams,
     };
   }
 
-  // NOUVELLE méthode pour créer une ApiError à partir d'une AxiosError
-  private createApiError(
-    error: any,
-    context: {
-      endpoint: string;
-      method: HttpMethod;
-      service?: 'public' | 'private' | ServiceType;
-    }
-  ): ApiError {
-    return new ApiError(
-      error.response?.data?.message || error.message,
-      error.response?.status,
-      error.response?.data?.code || error.code,
-      JSON.stringify({
-        endpoint: context?.endpoint,
-        method: context?.method,
-        service: context?.service,
-        url: error?.config?.url,
-        baseURL: error?.config?.baseURL,
-        headers: error?.config?.headers,
-        responseData: error?.response?.data,
-      })
-    );
+  // L'identité est lue sur la requête telle qu'elle partira : en-têtes globaux, du service et de la requête,
+  // puis ce qu'a ajouté le fournisseur d'authentification, sauf s'il fournit sa propre identité
+  private async buildKey(
+    method: HttpMethod,
+    service: string,
+    url: string,
+    config: RetryableAxiosRequestConfig
+  ): Promise<string> {
+    const defaults = this.axiosInstance.defaults.headers as unknown as Record<string, unknown>;
+    const headers: Record<string, unknown> = {
+      ...Object.fromEntries(Object.entries(defaults).filter(([, value]) => typeof value !== 'object')),
+      ...(defaults.common as Record<string, unknown>),
+      ...(defaults[method.toLowerCase()] as Record<string, unknown>),
+      ...config.headers,
+    };
+    const authHeaders = new Set(config._authHeaders?.map((name) => name.toLowerCase()));
+    const authParams = new Set(config._authParams);
+    const identity = await this.getAuthProvider(config)?.identity?.();
+
+    const credentials: Record<string, string> = {};
+    if (identity !== undefined) credentials['@identity'] = identity;
+    Object.entries(headers).forEach(([name, value]) => {
+      const header = name.toLowerCase();
+      if (value === undefined || value === null) return;
+      const included = authHeaders.has(header) ? identity === undefined : this.redactor.isSensitiveHeader(header);
+      if (included) credentials[header] = String(value);
+    });
+
+    const params: Record<string, unknown> = {};
+    Object.entries((config.params ?? {}) as Record<string, unknown>).forEach(([name, value]) => {
+      if (!authParams.has(name)) {
+        params[name] = value;
+      } else if (identity === undefined) {
+        credentials[`?${name}`] = String(value);
+      }
+    });
+
+    return buildRequestKey({ method, service, url, params, credentials });
+  }
+
+  private getServiceBaseUrl(serviceConfig: ServiceConfig): string {
+    if (!serviceConfig.basePath) return serviceConfig.url;
+
+    const basePath = serviceConfig.basePath.replace(/^\/+|\/+$/g, '');
+    return basePath ? `${serviceConfig.url.replace(/\/+$/, '')}/${basePath}` : serviceConfig.url;
   }
 
   // MODIFIÉE pour accepter une ApiError au lieu de créer l'erreur
@@ -445,19 +1160,31 @@ export class Api {
     context: {
       endpoint: string;
       method: HttpMethod;
-      service?: 'public' | 'private' | ServiceType;
+      service?: string;
     }
   ): void {
-    this.log('Erreur HTTP', apiError);
-    this.config.onRequestError(apiError);
-
-    if (apiError.status && apiError.status >= 500) {
-      this.log('Erreur serveur détectée');
+    const fields: LogFields = {
+      service: context.service,
+      method: context.method,
+      url: context.endpoint,
+      status: apiError.status,
+      error: apiError,
+    };
+    // Sans statut (réseau, timeout) ou 5xx : le service est en cause
+    if (!apiError.status || apiError.status >= 500) {
+      this.logger.error('Erreur HTTP', fields);
+    } else {
+      this.logger.warn('Erreur HTTP', fields);
     }
+    this.config.onRequestError(apiError);
   }
 
-  public updateConfig(newConfig: Partial<ApiConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+  public updateConfig(newConfig: Partial<ApiConfig<TServices>>): void {
+    this.config = {
+      ...this.config,
+      ...newConfig,
+      services: { ...this.config.services, ...newConfig.services },
+    };
 
     if (newConfig.baseUrl) {
       this.axiosInstance.defaults.baseURL = newConfig.baseUrl;
@@ -473,23 +1200,137 @@ export class Api {
         ...newConfig.headers,
       };
     }
+    if ('adapter' in newConfig) {
+      // `undefined` rétablit le transport par défaut d'axios
+      this.axiosInstance.defaults.adapter = newConfig.adapter ?? axios.defaults.adapter;
+    }
 
-    if (newConfig.onRequest || newConfig.onResponse) {
-      this.log('Les intercepteurs personnalisés ont été mis à jour. Notez que les intercepteurs Axios existants ne sont pas automatiquement remplacés sans recréer l\'instance ou éjecter les anciens.');
-      // Ici, si besoin, il faudrait re-créer this.axiosInstance et re-configurer les intercepteurs
+    if (newConfig.cache) {
+      this.responseCache = new ResponseCache(this.config.cache);
+    }
+    if (newConfig.redact) {
+      this.redactor = new Redactor(this.config.redact);
+    }
+    if (newConfig.scheduler || newConfig.services) {
+      this.scheduler.configure(this.config.scheduler);
+    }
+    if (newConfig.redact || 'logger' in newConfig || 'logLevel' in newConfig || newConfig.debug !== undefined) {
+      this.logger = this.createLogger();
+    }
+    if (newConfig.metrics !== undefined) {
+      this.setupMetrics();
+    }
+    if (newConfig.har !== undefined || newConfig.redact) {
+      this.setupHar();
+    }
+    if (newConfig.services) {
+      // Les disjoncteurs sont recréés avec leurs nouvelles options
+      this.circuits.clear();
     }
+    if (newConfig.enableAuth === false) {
+      // Ne pas réutiliser un token obtenu avant la désactivation
+      this.setCurrentToken(null);
+    }
+  }
+
+  // Retourne une fonction qui retire le middleware
+  public use(middleware: Middleware<ServiceType<TServices>> | MiddlewareFunction): () => void {
+    return this.middlewares.add(middleware as Middleware | MiddlewareFunction);
+  }
+
+  public removeMiddleware(middleware: Middleware<ServiceType<TServices>> | MiddlewareFunction | string): boolean {
+    return this.middlewares.remove(middleware as Middleware | MiddlewareFunction | string);
+  }
+
+  public createClient<TContract extends Contract<ServiceType<TServices>>>(
+    contract: TContract
+  ): ContractClient<TContract> {
+    return createContractClient(contract, (config) =>
+      this.request(config as RequestConfig<TServices>)
+    );
   }
 
-  public getConfig(): ApiConfig {
+  // Retourne le nombre de requêtes annulées
+  public cancelAll(): number {
+    return this.cancellation.cancel();
+  }
+
+  public cancelByTag(tag: string): number {
+    return this.cancellation.cancel((request) => request.tags.includes(tag));
+  }
+
+  public cancelService(service: ServiceType<TServices>): number {
+    return this.cancellation.cancel((request) => request.service === service);
+  }
+
+  // Annule uniquement les requêtes en attente dans le planificateur
+  public cancelQueued(service?: ServiceType<TServices>): number {
+    return this.scheduler.clear((task) => service === undefined || task.service === service);
+  }
+
+  public getQueueStats(): QueueStats {
+    return this.scheduler.getStats();
+  }
+
+  // `null` si les métriques ne sont pas activées
+  public getStats(): MetricsSnapshot | null {
+    return this.metrics?.getStats() ?? null;
+  }
+
+  public resetStats(): void {
+    this.metrics?.reset();
+  }
+
+  // Pousse immédiatement un instantané vers l'exporter (ex: avant la fermeture de la page)
+  public exportStats(): Promise<void> {
+    return this.metrics?.export() ?? Promise.resolve();
+  }
+
+  // Trafic capturé au format HAR 1.2 (`null` si la capture n'est pas activée)
+  public exportHar(): HarDocument | null {
+    return this.har?.toHar() ?? null;
+  }
+
+  public clearHar(): void {
+    this.har?.clear();
+  }
+
+  // `null` si le disjoncteur n'est pas activé pour ce service
+  public getCircuitState(service: ServiceType<TServices>): CircuitState | null {
+    return this.getCircuit(service)?.getState() ?? null;
+  }
+
+  public resetCircuit(service: ServiceType<TServices>): void {
+    this.getCircuit(service)?.reset();
+  }
+
+  public invalidate(pattern: string | RegExp, service?: ServiceType<TServices>): Promise<void> {
+    return this.responseCache.invalidate(pattern, service);
+  }
+
+  public clearCache(): Promise<void> {
+    return this.responseCache.clear();
+  }
+
+  public getConfig(): ApiConfig<TServices> {
     return { ...this.config };
   }
 
   public clearToken(): void {
-    this.currentToken = null;
+    this.setCurrentToken(null);
   }
 
-  public setToken(token: string): void {
-    this.currentToken = token;
+  // Sans `expiresAt`, l'expiration est lue dans le claim `exp` du JWT
+  public setToken(token: string, expiresAt?: SessionData['expiresAt']): void {
+    this.setCurrentToken(token, expiresAt);
+  }
+
+  public on<K extends keyof ApiEvents>(event: K, listener: ApiEventListener<ApiEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  public off<K extends keyof ApiEvents>(event: K, listener: ApiEventListener<ApiEvents[K]>): void {
+    this.events.off(event, listener);
   }
 
   public isAuthEnabled(): boolean {
@@ -498,7 +1339,8 @@ export class Api {
 
   public updateAuthFunctions(
     getSession?: GetSessionFunction,
-    signOut?: SignOutFunction
+    signOut?: SignOutFunction,
+    refreshSession?: RefreshSessionFunction
   ): void {
     if (getSession) {
       this.config.getSession = getSession;
@@ -506,5 +1348,8 @@ export class Api {
     if (signOut) {
       this.config.signOut = signOut;
     }
+    if (refreshSession) {
+      this.config.refreshSession = refreshSession;
+    }
   }
 }
\ No newline at end of file
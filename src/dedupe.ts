@@ -0,0 +1,76 @@
+import { GenericAbortSignal } from 'axios';
+import { RequestCancelledError } from './types';
+
+interface InFlightRequest<T> {
+  key: string;
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export class RequestDeduplicator {
+  private inFlight = new Map<string, InFlightRequest<unknown>>();
+
+  run<T>(
+    key: string,
+    signal: GenericAbortSignal | undefined,
+    execute: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    let entry = this.inFlight.get(key) as InFlightRequest<T> | undefined;
+
+    if (!entry) {
+      // La requête partagée utilise son propre signal : un appelant qui annule
+      // ne doit pas interrompre la requête des autres
+      const controller = new AbortController();
+      const created: InFlightRequest<T> = {
+        key,
+        promise: execute(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        }),
+        controller,
+        subscribers: 0,
+      };
+      // Le rejet est transmis aux appelants : éviter un rejet non géré si tous ont annulé
+      created.promise.catch(() => undefined);
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    entry.subscribers++;
+    return this.subscribe(entry, signal);
+  }
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  private subscribe<T>(entry: InFlightRequest<T>, signal?: GenericAbortSignal): Promise<T> {
+    if (!signal) return entry.promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers--;
+        // Plus personne n'attend la réponse : annuler la requête partagée
+        if (entry.subscribers === 0) {
+          if (this.inFlight.get(entry.key) === entry) {
+            this.inFlight.delete(entry.key);
+          }
+          entry.controller.abort();
+        }
+        reject(new RequestCancelledError());
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener?.('abort', onAbort);
+      entry.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener?.('abort', onAbort));
+    });
+  }
+}
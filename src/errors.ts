@@ -0,0 +1,116 @@
+import { AxiosError } from 'axios';
+import {
+  ApiError,
+  AuthenticationError,
+  ConflictError,
+  ErrorContext,
+  FieldErrors,
+  HttpMethod,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  RetryableAxiosRequestConfig,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from './types';
+import { Redactor } from './redact';
+import { isTimeoutError, parseRetryAfter } from './retry';
+
+function toFieldName(path: unknown): string | undefined {
+  if (Array.isArray(path)) {
+    // FastAPI préfixe les chemins par l'emplacement (`['body', 'email']`)
+    const segments = path[0] === 'body' || path[0] === 'query' ? path.slice(1) : path;
+    return segments.length ? segments.join('.') : undefined;
+  }
+  return typeof path === 'string' && path ? path : undefined;
+}
+
+function asRecord(data: unknown): Record<string, unknown> | undefined {
+  return data && typeof data === 'object' ? (data as Record<string, unknown>) : undefined;
+}
+
+// Formats reconnus : `{ errors: { email: ['...'] } }`, `{ errors: [{ field, message }] }`,
+// `{ violations: [{ propertyPath, message }] }` et `{ detail: [{ loc, msg }] }`
+export function parseFieldErrors(data: unknown): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  const body = asRecord(data);
+  const source = body?.errors ?? body?.violations ?? body?.detail;
+
+  const add = (field: string | undefined, message: unknown) => {
+    if (!field || message === undefined || message === null) return;
+    const messages = Array.isArray(message) ? message.map(String) : [String(message)];
+    fieldErrors[field] = [...(fieldErrors[field] ?? []), ...messages];
+  };
+
+  if (Array.isArray(source)) {
+    source.forEach((value: unknown) => {
+      const item = asRecord(value);
+      if (!item) return;
+      const field = toFieldName(item.field ?? item.path ?? item.property ?? item.param ?? item.propertyPath ?? item.loc);
+      add(field, item.message ?? item.msg);
+    });
+  } else if (source && typeof source === 'object') {
+    Object.entries(source).forEach(([field, message]) => add(field, message));
+  }
+  return fieldErrors;
+}
+
+function getMessage(error: AxiosError): string {
+  const message = asRecord(error.response?.data)?.message;
+  if (typeof message === 'string' && message) return message;
+  if (Array.isArray(message) && message.length) return message.join(', ');
+  return error.message;
+}
+
+export function createApiError(
+  error: AxiosError,
+  request: { endpoint: string; method: HttpMethod; service?: string },
+  redactor: Redactor
+): ApiError {
+  const response = error.response;
+  const message = getMessage(error);
+  const responseCode = asRecord(response?.data)?.code;
+  const code = responseCode ? String(responseCode) : error.code;
+  const config = error.config as RetryableAxiosRequestConfig | undefined;
+  const context: ErrorContext = {
+    ...request,
+    url: config?.url === undefined ? undefined : redactor.redactUrl(config.url, config._authParams),
+    baseURL: config?.baseURL,
+    headers: redactor.redactHeaders(config?.headers, config?._authHeaders),
+    requestData: redactor.redactBody(config?.data),
+    responseData: redactor.redactBody(response?.data),
+  };
+
+  if (!response) {
+    return isTimeoutError(error)
+      ? new TimeoutError(message, code, context, error)
+      : new NetworkError(message, code, context, error);
+  }
+
+  const { status } = response;
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, parseFieldErrors(response.data), status, code, context, error);
+    case 401:
+      return new AuthenticationError(message, context, error);
+    case 404:
+      return new NotFoundError(message, code, context, error);
+    case 409:
+      return new ConflictError(message, code, context, error);
+    case 429:
+      return new RateLimitError(
+        message,
+        parseRetryAfter((response.headers as Record<string, unknown>)?.['retry-after']) ?? undefined,
+        code,
+        context,
+        error
+      );
+  }
+
+  if (status >= 500) {
+    return new ServerError(message, status, code, context, error);
+  }
+  return new ApiError(message, status, code, context, error);
+}
@@ -0,0 +1,22 @@
+import { isolate } from './isolate';
+import { ApiEventListener } from './types';
+
+export class EventEmitter<TEvents extends object> {
+  private listeners: { [K in keyof TEvents]?: Set<ApiEventListener<TEvents[K]>> } = {};
+
+  constructor(private onListenerError?: (error: unknown) => void) {}
+
+  on<K extends keyof TEvents>(event: K, listener: ApiEventListener<TEvents[K]>): () => void {
+    const listeners = (this.listeners[event] ??= new Set());
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof TEvents>(event: K, listener: ApiEventListener<TEvents[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+    this.listeners[event]?.forEach((listener) => isolate(() => listener(payload), this.onListenerError));
+  }
+}
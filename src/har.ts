@@ -0,0 +1,125 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import {
+  HarDocument,
+  HarEntry,
+  HarNameValue,
+  HarOptions,
+  HttpMethod,
+  RetryableAxiosRequestConfig,
+} from './types';
+import { Redactor } from './redact';
+
+const DEFAULT_MAX_ENTRIES = 100;
+
+function toNameValues(values: Record<string, string>): HarNameValue[] {
+  return Object.entries(values).map(([name, value]) => ({ name, value }));
+}
+
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+// Seuls les corps texte ou JSON sont conservés (pas de Blob, flux ou FormData)
+function toText(data: unknown): string | undefined {
+  if (data === undefined || data === null || data === '') return undefined;
+  if (typeof data === 'string') return data;
+  if (Array.isArray(data) || Object.getPrototypeOf(data) === Object.prototype) {
+    return JSON.stringify(data);
+  }
+  return undefined;
+}
+
+export class HarRecorder {
+  private entries: HarEntry[] = [];
+  private next = 0;
+
+  constructor(
+    private options: HarOptions = {},
+    private redactor: Redactor
+  ) {}
+
+  // Appelé pour chaque tentative, réussie ou non ; les annulations ne sont pas capturées
+  record(config: RetryableAxiosRequestConfig, response?: AxiosResponse, error?: AxiosError): void {
+    const startTime = config._startTime ?? Date.now();
+    const duration = Date.now() - startTime;
+    const includeBodies = this.options.includeBodies ?? true;
+
+    const requestHeaders = this.redactor.redactHeaders(config.headers, config._authHeaders);
+    const responseHeaders = this.redactor.redactHeaders(response?.headers);
+    const { url, queryString } = this.getUrl(config);
+    const requestText = includeBodies ? toText(this.redactor.redactBody(config.data)) : undefined;
+    const responseText = includeBodies ? toText(this.redactor.redactBody(response?.data)) : undefined;
+
+    const entry: HarEntry = {
+      startedDateTime: new Date(startTime).toISOString(),
+      time: duration,
+      request: {
+        method: (config.method?.toUpperCase() as HttpMethod) || 'GET',
+        url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toNameValues(requestHeaders),
+        queryString,
+        ...(requestText !== undefined && {
+          postData: {
+            mimeType: findHeader(requestHeaders, 'content-type') ?? 'application/octet-stream',
+            text: requestText,
+          },
+        }),
+        headersSize: -1,
+        bodySize: requestText?.length ?? 0,
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: response?.statusText ?? '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toNameValues(responseHeaders),
+        content: {
+          size: responseText?.length ?? 0,
+          mimeType: findHeader(responseHeaders, 'content-type') ?? '',
+          ...(responseText !== undefined && { text: responseText }),
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      // Axios n'expose que la durée totale de la tentative
+      timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: duration, receive: 0 },
+      _service: config._service,
+      _requestId: config._requestId,
+      _attempt: (config._retryCount ?? 0) + 1,
+      ...(error && !response && { _error: error.message }),
+    };
+
+    const maxEntries = this.options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.entries[this.next] = entry;
+    this.next = (this.next + 1) % maxEntries;
+  }
+
+  toHar(): HarDocument {
+    // Les entrées les plus anciennes du tampon circulaire d'abord
+    const entries = [...this.entries.slice(this.next), ...this.entries.slice(0, this.next)];
+    return {
+      log: {
+        version: '1.2',
+        creator: this.options.creator ?? { name: 'ak-api-http', version: '' },
+        entries,
+      },
+    };
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.next = 0;
+  }
+
+  private getUrl(config: RetryableAxiosRequestConfig): { url: string; queryString: HarNameValue[] } {
+    const url = this.redactor.redactUrl(axios.getUri(config), config._authParams);
+    const queryString = [...new URLSearchParams(url.split('?')[1] ?? '')].map(([name, value]) => ({ name, value }));
+
+    return { url, queryString };
+  }
+}
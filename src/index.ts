@@ -1,3 +1,21 @@
-
 export * from './core';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export * from './retry';
+export * from './cache';
+export * from './validation';
+export * from './contract';
+export * from './pagination';
+export * from './transfer';
+export * from './errors';
+export * from './redact';
+export * from './middleware';
+export * from './events';
+export * from './token';
+export * from './auth';
+export * from './query';
+export * from './scheduler';
+export * from './circuit';
+export * from './tracing';
+export * from './metrics';
+export * from './logger';
+export * from './har';
@@ -0,0 +1,10 @@
+// Code fourni par l'utilisateur (écouteurs, logger, tracer) : une erreur est signalée
+// à `onError` mais ne doit pas interrompre la requête
+export function isolate<T>(fn: () => T, onError?: (error: unknown) => void): T | undefined {
+  try {
+    return fn();
+  } catch (error) {
+    onError?.(error);
+    return undefined;
+  }
+}
@@ -0,0 +1,83 @@
+import { ApiError, LogFields, Logger, LogLevel } from './types';
+import { isolate } from './isolate';
+import { Redactor } from './redact';
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+// Utilisé uniquement en mode `debug` sans logger fourni
+/* eslint-disable no-console */
+export const consoleLogger: Logger = {
+  debug: (message, fields) => console.debug(`[Api] ${message}`, fields ?? ''),
+  info: (message, fields) => console.info(`[Api] ${message}`, fields ?? ''),
+  warn: (message, fields) => console.warn(`[Api] ${message}`, fields ?? ''),
+  error: (message, fields) => console.error(`[Api] ${message}`, fields ?? ''),
+};
+/* eslint-enable no-console */
+
+// Seuls des champs sûrs sont transmis : `cause` (erreur Axios, config et en-têtes) n'est jamais exposée
+export function serializeError(error: unknown, redactor: Redactor): unknown {
+  if (error instanceof ApiError) {
+    const { name, message, code, status, context } = error;
+    return { name, message, code, status, context };
+  }
+  if (error instanceof Error) {
+    const { code } = error as Error & { code?: unknown };
+    return { name: error.name, message: error.message, ...(typeof code === 'string' && { code }) };
+  }
+  return redactor.redactBody(error);
+}
+
+export class ApiLogger {
+  private threshold: number;
+
+  constructor(
+    private logger: Logger | null,
+    level: LogLevel,
+    private redactor: Redactor
+  ) {
+    this.threshold = logger ? LEVELS[level] : LEVELS.silent;
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LEVELS[level] >= this.threshold;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, fields?: LogFields): void {
+    const logger = this.logger;
+    if (!logger || !this.isEnabled(level)) return;
+
+    isolate(() => logger[level](message, fields && this.redact(fields)));
+  }
+
+  // En-têtes et champs sensibles masqués avant de quitter la bibliothèque
+  private redact(fields: LogFields): LogFields {
+    const { headers, error, ...rest } = fields;
+    const redacted = this.redactor.redactBody(rest) as LogFields;
+
+    if (headers !== undefined) redacted.headers = this.redactor.redactHeaders(headers);
+    if (error !== undefined) redacted.error = serializeError(error, this.redactor);
+    return redacted;
+  }
+}
@@ -0,0 +1,207 @@
+import { EventEmitter } from './events';
+import {
+  ApiError,
+  ApiEvents,
+  EndpointStats,
+  HttpMethod,
+  LatencyStats,
+  MetricsOptions,
+  MetricsSnapshot,
+  RequestCancelledError,
+  RequestEndEvent,
+  RequestStats,
+} from './types';
+
+const DEFAULT_MAX_SAMPLES = 1000;
+const DEFAULT_EXPORT_INTERVAL = 60000;
+
+const UUID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ID_SEGMENT = /^(\d+|[0-9a-f]{16,})$/i;
+
+// `/users/42/orders?page=2` → `/users/:id/orders` : un modèle par route, pas par ressource
+export function normalizeEndpoint(endpoint: string): string {
+  const [path] = endpoint.trim().split('?');
+  return path
+    .split('/')
+    .map((segment) => (UUID_SEGMENT.test(segment) || ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/');
+}
+
+// Rang le plus proche sur des valeurs triées
+export function percentile(sorted: number[], rank: number): number {
+  if (!sorted.length) return 0;
+  const index = Math.ceil((rank / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+}
+
+interface EndpointEntry {
+  service: string;
+  method: HttpMethod;
+  endpoint: string;
+  count: number;
+  errors: number;
+  cancelled: number;
+  retries: number;
+  statuses: Record<string, number>;
+  // Durées les plus récentes (tampon circulaire)
+  samples: number[];
+  next: number;
+}
+
+export class MetricsCollector {
+  private entries = new Map<string, EndpointEntry>();
+  private pendingRetries = new Map<string, number>();
+  private since = Date.now();
+  private unsubscribe: (() => void)[];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    events: EventEmitter<ApiEvents>,
+    private options: MetricsOptions = {},
+    private onExportError?: (error: unknown) => void
+  ) {
+    this.unsubscribe = [
+      events.on('retry', ({ requestId }) => {
+        if (requestId) {
+          this.pendingRetries.set(requestId, (this.pendingRetries.get(requestId) ?? 0) + 1);
+        }
+      }),
+      events.on('request:end', (event) => this.record(event)),
+    ];
+
+    if (options.exporter) {
+      this.timer = setInterval(() => {
+        void this.export();
+      }, options.exportInterval ?? DEFAULT_EXPORT_INTERVAL);
+      // Ne pas empêcher un processus Node.js de se terminer
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  getStats(): MetricsSnapshot {
+    const endpoints = [...this.entries.values()].map((entry): EndpointStats => ({
+      service: entry.service,
+      method: entry.method,
+      endpoint: entry.endpoint,
+      ...this.summarize([entry]),
+    }));
+
+    const byService = new Map<string, EndpointEntry[]>();
+    this.entries.forEach((entry) => {
+      byService.set(entry.service, [...(byService.get(entry.service) ?? []), entry]);
+    });
+
+    return {
+      since: this.since,
+      timestamp: Date.now(),
+      total: this.summarize([...this.entries.values()]),
+      services: Object.fromEntries([...byService].map(([service, entries]) => [service, this.summarize(entries)])),
+      endpoints,
+    };
+  }
+
+  reset(): void {
+    this.entries.clear();
+    this.pendingRetries.clear();
+    this.since = Date.now();
+  }
+
+  async export(): Promise<void> {
+    if (!this.options.exporter) return;
+
+    const snapshot = this.getStats();
+    if (this.options.resetOnExport) this.reset();
+    try {
+      await this.options.exporter(snapshot);
+    } catch (error) {
+      this.onExportError?.(error);
+    }
+  }
+
+  dispose(): void {
+    this.unsubscribe.forEach((unsubscribe) => unsubscribe());
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private record(event: RequestEndEvent): void {
+    const endpoint = (this.options.normalizeEndpoint ?? normalizeEndpoint)(event.endpoint);
+    const key = `${event.service} ${event.method} ${endpoint}`;
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        service: event.service,
+        method: event.method,
+        endpoint,
+        count: 0,
+        errors: 0,
+        cancelled: 0,
+        retries: 0,
+        statuses: {},
+        samples: [],
+        next: 0,
+      };
+      this.entries.set(key, entry);
+    }
+
+    entry.retries += this.pendingRetries.get(event.requestId) ?? 0;
+    this.pendingRetries.delete(event.requestId);
+
+    // Une annulation ne reflète ni la latence ni la santé du service
+    if (event.error instanceof RequestCancelledError) {
+      entry.cancelled++;
+      return;
+    }
+
+    entry.count++;
+    if (event.error) entry.errors++;
+
+    const status = event.status ?? (event.error instanceof ApiError ? event.error.status : undefined);
+    const statusKey = status ? String(status) : 'network';
+    entry.statuses[statusKey] = (entry.statuses[statusKey] ?? 0) + 1;
+
+    const maxSamples = this.options.maxSamples ?? DEFAULT_MAX_SAMPLES;
+    entry.samples[entry.next] = event.duration;
+    entry.next = (entry.next + 1) % maxSamples;
+  }
+
+  private summarize(entries: EndpointEntry[]): RequestStats {
+    const stats: RequestStats = {
+      count: 0,
+      errors: 0,
+      cancelled: 0,
+      retries: 0,
+      errorRate: 0,
+      statuses: {},
+      latency: this.getLatency(entries.flatMap((entry) => entry.samples)),
+    };
+
+    entries.forEach((entry) => {
+      stats.count += entry.count;
+      stats.errors += entry.errors;
+      stats.cancelled += entry.cancelled;
+      stats.retries += entry.retries;
+      Object.entries(entry.statuses).forEach(([status, count]) => {
+        stats.statuses[status] = (stats.statuses[status] ?? 0) + count;
+      });
+    });
+    stats.errorRate = stats.count ? stats.errors / stats.count : 0;
+    return stats;
+  }
+
+  private getLatency(samples: number[]): LatencyStats {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const total = sorted.reduce((sum, value) => sum + value, 0);
+
+    return {
+      min: sorted[0] ?? 0,
+      max: sorted[sorted.length - 1] ?? 0,
+      mean: sorted.length ? total / sorted.length : 0,
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { ApiResponse, Middleware, MiddlewareContext, MiddlewareFunction } from './types';
+
+interface RegisteredMiddleware {
+  middleware: Middleware;
+  handler: MiddlewareFunction;
+  index: number;
+}
+
+export class MiddlewarePipeline {
+  private entries: RegisteredMiddleware[] = [];
+  private counter = 0;
+
+  add(middleware: Middleware | MiddlewareFunction): () => void {
+    const normalized = typeof middleware === 'function' ? { handler: middleware } : middleware;
+    const entry: RegisteredMiddleware = { middleware: normalized, handler: normalized.handler, index: this.counter++ };
+
+    this.entries.push(entry);
+    this.entries.sort((a, b) => (a.middleware.order ?? 0) - (b.middleware.order ?? 0) || a.index - b.index);
+
+    return () => {
+      this.entries = this.entries.filter((registered) => registered !== entry);
+    };
+  }
+
+  // Accepte le middleware ajouté, sa fonction ou son nom
+  remove(middleware: Middleware | MiddlewareFunction | string): boolean {
+    const count = this.entries.length;
+    this.entries = this.entries.filter(({ middleware: registered, handler }) =>
+      typeof middleware === 'string'
+        ? registered.name !== middleware
+        : registered !== middleware && handler !== middleware
+    );
+    return this.entries.length !== count;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  // La réponse d'un middleware est celle attendue par l'appelant (voir le contrat de `Middleware`)
+  run<T>(
+    context: MiddlewareContext,
+    handler: (context: MiddlewareContext) => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    // Figer la liste : un ajout ou un retrait n'affecte pas les requêtes en cours
+    const chain = this.entries.filter(({ middleware }) =>
+      !middleware.services || middleware.services.includes(context.service)
+    );
+
+    const dispatch = async (index: number): Promise<ApiResponse> => {
+      if (index === chain.length) return handler(context);
+
+      let called = false;
+      const response = await chain[index].handler(context, () => {
+        if (called) {
+          return Promise.reject(new Error('next() called multiple times'));
+        }
+        called = true;
+        return dispatch(index + 1);
+      });
+
+      if (!response) {
+        throw new Error(`Middleware ${chain[index].middleware.name ?? index} did not return a response`);
+      }
+      return response;
+    };
+
+    return dispatch(0) as Promise<ApiResponse<T>>;
+  }
+}
@@ -0,0 +1,476 @@
+import { readFileSync } from 'fs';
+import { HttpMethod } from './types';
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  allOf?: OpenApiSchema[];
+  nullable?: boolean;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: OpenApiSchema;
+  description?: string;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiRequestBody {
+  $ref?: string;
+  required?: boolean;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  $ref?: string;
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiServer {
+  url: string;
+  description?: string;
+  'x-service-name'?: string;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses?: Record<string, OpenApiResponse>;
+  servers?: OpenApiServer[];
+}
+
+export type OpenApiPathItem = Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>> & {
+  parameters?: OpenApiParameter[];
+  servers?: OpenApiServer[];
+};
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: OpenApiServer[];
+  paths?: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+    responses?: Record<string, OpenApiResponse>;
+  };
+}
+
+export interface OpenApiGeneratorOptions {
+  // Associe chaque serveur (par défaut) ou chaque tag à une entrée de ApiConfig.services
+  serviceFrom?: 'server' | 'tag';
+  // Noms de services imposés, indexés par URL de serveur ou par tag
+  serviceNames?: Record<string, string>;
+  // Module importé par le code généré
+  importFrom?: string;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function toWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function toPascalCase(value: string): string {
+  const name = toWords(value)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name || 'Unnamed';
+}
+
+export function toCamelCase(value: string): string {
+  const name = toPascalCase(value);
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function literal(value: unknown): string {
+  if (typeof value !== 'string') return JSON.stringify(value);
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : literal(name);
+}
+
+function propertyAccess(object: string, name: string): string {
+  return IDENTIFIER.test(name) ? `${object}.${name}` : `${object}[${literal(name)}]`;
+}
+
+// `/api/v3/` → `/api/v3`, `/` → ``
+function toBasePath(url: string): string {
+  const path = url.replace(/[?#].*$/, '').replace(/^\/+|\/+$/g, '');
+  return path ? `/${path}` : '';
+}
+
+function refName(ref: string): string {
+  return toPascalCase(ref.split('/').pop() ?? ref);
+}
+
+class OpenApiGenerator {
+  private output: string[] = [];
+  private services = new Map<string, string>();
+
+  constructor(
+    private document: OpenApiDocument,
+    private options: OpenApiGeneratorOptions
+  ) {}
+
+  generate(): string {
+    const { info } = this.document;
+    const importFrom = this.options.importFrom ?? 'ak-api-http';
+
+    this.output.push(
+      '/* eslint-disable */',
+      `// Généré par ak-api-http à partir de ${info?.title ?? 'OpenAPI'} ${info?.version ?? ''}`.trimEnd() + '. Ne pas modifier.',
+      `import type { Api, RequestConfig } from '${importFrom}';`,
+      '',
+      'type OperationOptions<T> = Omit<',
+      '  RequestConfig<typeof services, T>,',
+      '  \'endpoint\' | \'method\' | \'data\' | \'searchParams\' | \'service\'',
+      '>;',
+      ''
+    );
+
+    Object.entries(this.document.components?.schemas ?? {}).forEach(([name, schema]) => {
+      this.emitNamedType(toPascalCase(name), schema);
+    });
+
+    const operations = this.collectOperations();
+    operations.forEach((operation) => this.emitOperationTypes(operation));
+
+    this.emitServices();
+    this.emitClient(operations);
+
+    return this.output.join('\n');
+  }
+
+  private resolve<T extends { $ref?: string }>(value: T): T {
+    if (!value.$ref) return value;
+
+    const path = value.$ref.replace(/^#\//, '').split('/');
+    const resolved = path.reduce<unknown>(
+      (node, key) => (node as Record<string, unknown> | undefined)?.[key],
+      this.document
+    );
+    if (!resolved) {
+      throw new Error(`Unresolved reference '${value.$ref}'`);
+    }
+    return this.resolve(resolved as T);
+  }
+
+  schemaToType(schema: OpenApiSchema | undefined, indent = ''): string {
+    if (!schema) return 'unknown';
+    if (schema.$ref) return refName(schema.$ref);
+
+    let type: string;
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+    if (schema.oneOf || schema.anyOf) {
+      type = (schema.oneOf ?? schema.anyOf ?? []).map((item) => this.schemaToType(item, indent)).join(' | ');
+    } else if (schema.allOf) {
+      type = schema.allOf.map((item) => this.schemaToType(item, indent)).join(' & ');
+    } else if (schema.enum) {
+      type = schema.enum.map(literal).join(' | ');
+    } else if (types.length > 1) {
+      type = types.map((item) => this.schemaToType({ ...schema, type: item }, indent)).join(' | ');
+    } else {
+      type = this.primitiveToType(types[0], schema, indent);
+    }
+
+    return schema.nullable ? `${type} | null` : type;
+  }
+
+  private primitiveToType(type: string | undefined, schema: OpenApiSchema, indent: string): string {
+    switch (type) {
+      case 'string':
+        return schema.format === 'binary' ? 'Blob' : 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array': {
+        const items = this.schemaToType(schema.items, indent);
+        return /[|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+      }
+      case 'object':
+      case undefined:
+        if (schema.properties || schema.additionalProperties) {
+          return this.objectToType(schema, indent);
+        }
+        return type === 'object' ? 'Record<string, unknown>' : 'unknown';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private objectToType(schema: OpenApiSchema, indent: string): string {
+    const required = new Set(schema.required ?? []);
+    const inner = `${indent}  `;
+    const properties = Object.entries(schema.properties ?? {});
+    const { additionalProperties } = schema;
+
+    if (!properties.length && additionalProperties) {
+      const valueType = additionalProperties === true ? 'unknown' : this.schemaToType(additionalProperties, indent);
+      return `Record<string, ${valueType}>`;
+    }
+
+    const lines = properties.map(([name, property]) => {
+      const optional = required.has(name) ? '' : '?';
+      return `${inner}${propertyKey(name)}${optional}: ${this.schemaToType(property, inner)};`;
+    });
+
+    // Les propriétés déclarées doivent rester compatibles avec la signature d'index
+    if (additionalProperties) {
+      lines.push(`${inner}[key: string]: unknown;`);
+    }
+
+    return lines.length ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+  }
+
+  private emitNamedType(name: string, schema: OpenApiSchema): void {
+    const type = this.schemaToType(schema);
+    this.output.push(
+      type.startsWith('{') && !schema.nullable
+        ? `export interface ${name} ${type}`
+        : `export type ${name} = ${type};`,
+      ''
+    );
+  }
+
+  private collectOperations(): GeneratedOperation[] {
+    const operations: GeneratedOperation[] = [];
+    const usedNames = new Set<string>();
+
+    Object.entries(this.document.paths ?? {}).forEach(([path, pathItem]) => {
+      HTTP_METHODS.forEach((method) => {
+        const operation = pathItem[method.toLowerCase() as Lowercase<HttpMethod>];
+        if (!operation) return;
+
+        let name = toCamelCase(operation.operationId ?? `${method.toLowerCase()} ${path.replace(/[{}]/g, '')}`);
+        while (usedNames.has(name)) name = `${name}_`;
+        usedNames.add(name);
+
+        const parameters = [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]
+          .map((parameter) => this.resolve(parameter));
+
+        operations.push({
+          name,
+          method,
+          path,
+          summary: operation.summary,
+          ...this.getService(operation, pathItem),
+          pathParameters: parameters.filter((parameter) => parameter.in === 'path'),
+          queryParameters: parameters.filter((parameter) => parameter.in === 'query'),
+          requestBody: operation.requestBody ? this.resolve(operation.requestBody) : undefined,
+          response: this.getSuccessResponse(operation),
+        });
+      });
+    });
+
+    return operations;
+  }
+
+  private getService(operation: OpenApiOperation, pathItem: OpenApiPathItem): { service: string; basePath: string } {
+    const names = this.options.serviceNames ?? {};
+    const [server] = operation.servers ?? pathItem.servers ?? this.document.servers ?? [];
+    // Une URL relative (`/api/v3`) désigne un chemin sous le baseUrl de l'instance : préfixée aux endpoints
+    const relative = !!server && !/^[^/]*:\/\//.test(server.url);
+    const basePath = relative ? toBasePath(server.url) : '';
+    const url = relative ? '' : server?.url ?? '';
+
+    if (this.options.serviceFrom === 'tag') {
+      const tag = operation.tags?.[0] ?? 'default';
+      const name = names[tag] ?? toCamelCase(tag);
+      this.services.set(name, url);
+      return { service: name, basePath };
+    }
+
+    if (!server || relative) {
+      this.services.set('private', '');
+      return { service: 'private', basePath };
+    }
+
+    const name = names[server.url] ?? server['x-service-name'] ?? this.serviceNameFromUrl(server.url);
+    this.services.set(name, server.url);
+    return { service: name, basePath };
+  }
+
+  private serviceNameFromUrl(url: string): string {
+    const host = url.match(/^[a-z]+:\/\/([^/:]+)/i)?.[1];
+    if (!host) return 'private';
+
+    const [label] = host.split('.');
+    return toCamelCase(label === 'api' || label === 'www' ? host.split('.')[1] ?? label : label);
+  }
+
+  private getSuccessResponse(operation: OpenApiOperation): OpenApiSchema | null {
+    const [, response] = Object.entries(operation.responses ?? {})
+      .find(([status]) => /^2/.test(status)) ?? [];
+    if (!response) return null;
+
+    return this.getContentSchema(this.resolve(response).content);
+  }
+
+  private getContentSchema(content?: Record<string, OpenApiMediaType>): OpenApiSchema | null {
+    if (!content) return null;
+
+    const json = Object.keys(content).find((type) => /json/.test(type));
+    const media = content[json ?? Object.keys(content)[0]];
+    return media?.schema ?? {};
+  }
+
+  private emitOperationTypes(operation: GeneratedOperation): void {
+    const typeName = toPascalCase(operation.name);
+
+    if (operation.queryParameters.length) {
+      this.emitNamedType(`${typeName}Query`, {
+        type: 'object',
+        properties: Object.fromEntries(
+          operation.queryParameters.map((parameter) => [parameter.name, parameter.schema ?? {}])
+        ),
+        required: operation.queryParameters
+          .filter((parameter) => parameter.required)
+          .map((parameter) => parameter.name),
+      });
+    }
+
+    const bodySchema = this.getContentSchema(operation.requestBody?.content);
+    if (bodySchema) {
+      this.output.push(`export type ${typeName}Body = ${this.schemaToType(bodySchema)};`, '');
+    }
+
+    const responseType = operation.response ? this.schemaToType(operation.response) : 'void';
+    this.output.push(`export type ${typeName}Response = ${responseType};`, '');
+  }
+
+  private emitServices(): void {
+    const entries = Array.from(this.services.entries())
+      .filter(([name]) => name !== 'public' && name !== 'private')
+      .map(([name, url]) => `  ${propertyKey(name)}: { url: ${literal(url)} },`);
+
+    this.output.push('export const services = {', ...entries, '};', '');
+  }
+
+  private emitClient(operations: GeneratedOperation[]): void {
+    this.output.push(
+      'export function createClient(api: Api<typeof services>) {',
+      '  return {'
+    );
+
+    operations.forEach((operation) => {
+      const typeName = toPascalCase(operation.name);
+      const args: string[] = operation.pathParameters.map(
+        (parameter) => `${propertyKey(parameter.name)}: ${this.schemaToType(parameter.schema)}`
+      );
+      const hasBody = !!this.getContentSchema(operation.requestBody?.content);
+
+      if (operation.queryParameters.length) {
+        const optional = operation.queryParameters.some((parameter) => parameter.required) ? '' : '?';
+        args.push(`query${optional}: ${typeName}Query`);
+      }
+      if (hasBody) {
+        args.push(`body${operation.requestBody?.required ? '' : '?'}: ${typeName}Body`);
+      }
+
+      const required = operation.pathParameters.length
+        || operation.queryParameters.some((parameter) => parameter.required)
+        || (hasBody && operation.requestBody?.required);
+      const argsType = args.length ? `{ ${args.join('; ')} }` : 'Record<string, never>';
+      // Le chemin de base est du texte : ni paramètre, ni interpolation
+      const basePath = operation.basePath.replace(/[`$\\]/g, '\\$&');
+      const endpoint = basePath + operation.path.replace(
+        /\{([^}]+)\}/g,
+        (_match, name: string) => `\${encodeURIComponent(String(${propertyAccess('args', name)}))}`
+      );
+
+      if (operation.summary) {
+        this.output.push(`    /** ${operation.summary.replace(/\*\//g, '*\\/')} */`);
+      }
+      this.output.push(
+        `    ${propertyKey(operation.name)}: (`,
+        `      args: ${argsType}${required ? '' : ' = {}'},`,
+        `      options: OperationOptions<${typeName}Response> = {}`,
+        `    ) => api.request<${typeName}Response>({`,
+        '      ...options,',
+        `      method: '${operation.method}',`,
+        `      endpoint: \`${endpoint}\`,`,
+        ...(operation.queryParameters.length ? ['      searchParams: args.query,'] : []),
+        ...(hasBody ? ['      data: args.body,'] : []),
+        `      service: ${literal(operation.service)},`,
+        '    }),'
+      );
+    });
+
+    this.output.push('  };', '}', '');
+  }
+}
+
+interface GeneratedOperation {
+  name: string;
+  method: HttpMethod;
+  path: string;
+  summary?: string;
+  service: string;
+  // Chemin d'une URL de serveur relative, sans barre finale
+  basePath: string;
+  pathParameters: OpenApiParameter[];
+  queryParameters: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  response: OpenApiSchema | null;
+}
+
+export function generateClient(
+  document: OpenApiDocument,
+  options: OpenApiGeneratorOptions = {}
+): string {
+  if (!/^3\./.test(document.openapi ?? '')) {
+    throw new Error(`Unsupported OpenAPI version '${document.openapi}', expected 3.x`);
+  }
+  return new OpenApiGenerator(document, options).generate();
+}
+
+export async function loadOpenApiDocument(file: string): Promise<OpenApiDocument> {
+  const source = readFileSync(file, 'utf8');
+
+  if (/\.json$/i.test(file) || source.trimStart().startsWith('{')) {
+    return JSON.parse(source);
+  }
+
+  try {
+    const { parse } = await import('yaml');
+    return parse(source);
+  } catch (error) {
+    if (/MODULE_NOT_FOUND/.test((error as { code?: string }).code ?? '')) {
+      throw new Error('Install the \'yaml\' package to read YAML OpenAPI documents');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  ApiResponse,
+  CursorPaginationOptions,
+  ItemsExtractor,
+  LinkHeaderPaginationOptions,
+  Page,
+  PagePaginationOptions,
+  PageRequest,
+  PaginationStrategy,
+} from './types';
+
+// Par défaut : la réponse est le tableau, ou l'enveloppe `{ items }`, `{ data }` ou `{ results }`
+function defaultItems<TItem>(data: unknown): TItem[] {
+  if (Array.isArray(data)) return data;
+  if (!data || typeof data !== 'object') return [];
+
+  for (const key of ['items', 'data', 'results']) {
+    const items = (data as Record<string, unknown>)[key];
+    if (Array.isArray(items)) return items;
+  }
+  return [];
+}
+
+export function pagePagination<TItem = unknown, TData = unknown>(
+  options: PagePaginationOptions<TItem, TData> = {}
+): PaginationStrategy<TItem, TData> {
+  const { pageParam = 'page', sizeParam = 'size', size, startPage = 1 } = options;
+  const getItems: ItemsExtractor<TItem, TData> = options.items ?? defaultItems;
+
+  return {
+    initial: (request) => ({
+      ...request,
+      searchParams: {
+        [pageParam]: startPage,
+        ...(size !== undefined ? { [sizeParam]: size } : {}),
+        ...request.searchParams,
+      },
+    }),
+    getItems: (response) => getItems(response.data),
+    getNext: (response, request, items) => {
+      const page = Number(request.searchParams[pageParam] ?? startPage);
+      const totalPages = options.totalPages?.(response.data);
+
+      if (items.length === 0) return null;
+      // Une page incomplète est forcément la dernière
+      if (size !== undefined && items.length < size) return null;
+      if (totalPages !== undefined && page >= totalPages) return null;
+
+      return { ...request, searchParams: { ...request.searchParams, [pageParam]: page + 1 } };
+    },
+  };
+}
+
+export function cursorPagination<TItem = unknown, TData = unknown>(
+  options: CursorPaginationOptions<TItem, TData>
+): PaginationStrategy<TItem, TData> {
+  const { cursorParam = 'cursor', nextCursor } = options;
+  const getItems: ItemsExtractor<TItem, TData> = options.items ?? defaultItems;
+
+  return {
+    getItems: (response) => getItems(response.data),
+    getNext: (response, request) => {
+      const cursor = nextCursor(response.data);
+
+      // Un curseur identique au précédent bouclerait indéfiniment
+      if (cursor === undefined || cursor === null || cursor === '') return null;
+      if (String(cursor) === String(request.searchParams[cursorParam])) return null;
+
+      return { ...request, searchParams: { ...request.searchParams, [cursorParam]: cursor } };
+    },
+  };
+}
+
+// En-tête RFC 5988 : `<https://api.example.com/users?page=2>; rel="next", <...>; rel="last"`
+export function parseLinkHeader(header: string | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  header.split(/,\s*(?=<)/).forEach((part) => {
+    const match = part.match(/^\s*<([^>]*)>(.*)$/);
+    if (!match) return;
+
+    const rel = match[2].match(/;\s*rel\s*=\s*"?([^";]+)"?/i);
+    rel?.[1].trim().split(/\s+/).forEach((name) => {
+      links[name.toLowerCase()] = match[1];
+    });
+  });
+  return links;
+}
+
+export function linkHeaderPagination<TItem = unknown, TData = unknown>(
+  options: LinkHeaderPaginationOptions<TItem, TData> = {}
+): PaginationStrategy<TItem, TData> {
+  const { rel = 'next' } = options;
+  const getItems: ItemsExtractor<TItem, TData> = options.items ?? defaultItems;
+
+  return {
+    getItems: (response) => getItems(response.data),
+    getNext: (response) => {
+      const next = parseLinkHeader(response.headers.link)[rel.toLowerCase()];
+
+      // Le lien contient déjà tous les paramètres de la page suivante
+      return next ? { endpoint: next, searchParams: {} } : null;
+    },
+  };
+}
+
+export async function* iteratePages<TItem, TData>(
+  fetchPage: (request: PageRequest) => Promise<ApiResponse<TData>>,
+  request: PageRequest,
+  strategy: PaginationStrategy<TItem, TData>,
+  limits: { maxPages?: number; maxItems?: number } = {}
+): AsyncGenerator<Page<TItem, TData>, void, undefined> {
+  const { maxPages = Infinity, maxItems = Infinity } = limits;
+  let next: PageRequest | null = strategy.initial ? strategy.initial(request) : request;
+  let index = 0;
+  let count = 0;
+
+  while (next && index < maxPages && count < maxItems) {
+    const response = await fetchPage(next);
+    const items = strategy.getItems(response);
+    const following = strategy.getNext(response, next, items);
+    const kept = items.slice(0, maxItems - count);
+
+    yield { ...response, items: kept, index };
+
+    index++;
+    count += kept.length;
+    next = following;
+  }
+}
+
+export async function* iterateItems<TItem>(
+  pages: AsyncIterable<Page<TItem>>
+): AsyncGenerator<TItem, void, undefined> {
+  for await (const page of pages) {
+    yield* page.items;
+  }
+}
@@ -0,0 +1,87 @@
+import { QuerySerializer, QuerySerializerOptions, SearchParams } from './types';
+
+type QueryPairs = [string, string][];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+export function createQuerySerializer(options: QuerySerializerOptions = {}): QuerySerializer {
+  const {
+    arrayFormat = 'comma',
+    objectFormat = 'brackets',
+    dateFormat = 'iso',
+    skipEmptyString = true,
+    skipNull = true,
+    skipFalse = false,
+  } = options;
+
+  const formatDate = (date: Date): string => {
+    if (typeof dateFormat === 'function') return dateFormat(date);
+    return dateFormat === 'timestamp' ? String(date.getTime()) : date.toISOString();
+  };
+
+  // `undefined` n'est jamais envoyé, les autres valeurs vides dépendent des options
+  const isSkipped = (value: unknown): boolean =>
+    value === undefined
+    || (value === null && skipNull)
+    || (value === '' && skipEmptyString)
+    || (value === false && skipFalse);
+
+  const formatScalar = (value: unknown): string => {
+    if (value === null) return '';
+    if (value instanceof Date) return formatDate(value);
+    return String(value);
+  };
+
+  const childKey = (key: string, child: string): string =>
+    objectFormat === 'dots' ? `${key}.${child}` : `${key}[${child}]`;
+
+  const serializeValue = (pairs: QueryPairs, key: string, value: unknown): void => {
+    if (isSkipped(value)) return;
+
+    if (Array.isArray(value)) {
+      const items = value.filter((item) => !isSkipped(item));
+      const isFlat = items.every((item) => !Array.isArray(item) && !isPlainObject(item));
+
+      // Le format `comma` ne sait pas représenter des objets imbriqués : repli sur les indices
+      if (arrayFormat === 'comma' && isFlat) {
+        if (items.length) pairs.push([key, items.map(formatScalar).join(',')]);
+        return;
+      }
+
+      items.forEach((item, index) => {
+        const itemKey = arrayFormat === 'repeat' && isFlat
+          ? key
+          : arrayFormat === 'brackets' && isFlat
+            ? `${key}[]`
+            : `${key}[${index}]`;
+        serializeValue(pairs, itemKey, item);
+      });
+      return;
+    }
+
+    if (isPlainObject(value)) {
+      Object.entries(value).forEach(([child, item]) => serializeValue(pairs, childKey(key, child), item));
+      return;
+    }
+
+    pairs.push([key, formatScalar(value)]);
+  };
+
+  return (params: SearchParams): string => {
+    const pairs: QueryPairs = [];
+    Object.entries(params).forEach(([key, value]) => serializeValue(pairs, key, value));
+    return new URLSearchParams(pairs).toString();
+  };
+}
+
+// Comportement historique : tableaux séparés par des virgules, `''` et `null` ignorés
+export const serializeQuery: QuerySerializer = createQuerySerializer();
+
+export function resolveQuerySerializer(
+  serializer: QuerySerializer | QuerySerializerOptions | undefined
+): QuerySerializer {
+  if (!serializer) return serializeQuery;
+  return typeof serializer === 'function' ? serializer : createQuerySerializer(serializer);
+}
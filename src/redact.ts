@@ -0,0 +1,89 @@
+import { RedactionOptions } from './types';
+
+export const REDACTED = '[REDACTED]';
+
+export const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-auth-token',
+];
+
+export const DEFAULT_REDACTED_FIELDS = [
+  'password',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'secret',
+  'clientSecret',
+];
+
+export class Redactor {
+  private headers: Set<string>;
+  private fields: Set<string>;
+
+  constructor(options: RedactionOptions = {}) {
+    this.headers = new Set([...DEFAULT_REDACTED_HEADERS, ...(options.headers ?? [])].map((name) => name.toLowerCase()));
+    this.fields = new Set([...DEFAULT_REDACTED_FIELDS, ...(options.fields ?? [])].map((name) => name.toLowerCase()));
+  }
+
+  isSensitiveHeader(name: string): boolean {
+    return this.headers.has(name.toLowerCase());
+  }
+
+  // `authHeaders` : en-têtes ajoutés par le fournisseur d'authentification, masqués quel que soit leur nom
+  redactHeaders(headers: unknown, authHeaders: string[] = []): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    if (!headers || typeof headers !== 'object') return redacted;
+
+    const credentials = new Set(authHeaders.map((name) => name.toLowerCase()));
+    Object.entries(headers).forEach(([name, value]) => {
+      if (value === undefined || value === null || typeof value === 'function') return;
+      const sensitive = this.isSensitiveHeader(name) || credentials.has(name.toLowerCase());
+      redacted[name] = sensitive ? REDACTED : String(value);
+    });
+    return redacted;
+  }
+
+  // Paramètres de la query string masqués comme les champs du corps, ainsi que ceux du fournisseur d'authentification
+  redactUrl(url: string, authParams: string[] = []): string {
+    const [base, search] = url.split('?');
+    if (!search) return url;
+
+    const credentials = new Set(authParams);
+    const params = [...new URLSearchParams(search)];
+    const sensitive = (name: string) => credentials.has(name) || this.fields.has(name.toLowerCase());
+    if (!params.some(([name]) => sensitive(name))) return url;
+
+    const query = new URLSearchParams(params.map(([name, value]) => [name, sensitive(name) ? REDACTED : value]));
+    return `${base}?${query.toString()}`;
+  }
+
+  redactBody(data: unknown): unknown {
+    // Le corps envoyé a déjà été sérialisé en JSON par Axios
+    if (typeof data === 'string') {
+      try {
+        return this.redactValue(JSON.parse(data));
+      } catch {
+        return data;
+      }
+    }
+    return this.redactValue(data);
+  }
+
+  private redactValue(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map((item) => this.redactValue(item));
+    if (!value || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        this.fields.has(key.toLowerCase()) ? REDACTED : this.redactValue(item),
+      ])
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import axios, { AxiosError } from 'axios';
+import { HttpMethod, ResolvedRetryPolicy, RetryPolicy } from './types';
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxRetries: 3,
+  retryDelay: 1000,
+  maxDelay: 30000,
+  backoff: 'fixed',
+  jitter: false,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: false,
+  retryOnTimeout: false,
+  // Seules les méthodes idempotentes sont rejouées par défaut
+  methods: ['GET', 'PUT', 'DELETE'],
+  respectRetryAfter: true,
+};
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+export function resolveRetryPolicy(
+  ...policies: (RetryPolicy | undefined)[]
+): ResolvedRetryPolicy {
+  return policies.reduce<ResolvedRetryPolicy>((resolved, policy) => {
+    if (!policy) return resolved;
+
+    const defined = Object.fromEntries(
+      Object.entries(policy).filter(([, value]) => value !== undefined)
+    );
+    return { ...resolved, ...defined };
+  }, DEFAULT_RETRY_POLICY);
+}
+
+export function isCancelled(error: unknown): boolean {
+  return axios.isCancel(error);
+}
+
+export function isTimeoutError(error: AxiosError): boolean {
+  return !error.response && TIMEOUT_CODES.includes(error.code ?? '');
+}
+
+export function isNetworkError(error: AxiosError): boolean {
+  return !error.response && !isTimeoutError(error);
+}
+
+// Retry-After peut contenir un nombre de secondes ou une date HTTP
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && !Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) return null;
+
+  return Math.max(0, date - now);
+}
+
+function getRetryAfter(error: AxiosError, policy: ResolvedRetryPolicy): number | null {
+  if (!policy.respectRetryAfter) return null;
+
+  const headers = error.response?.headers as Record<string, unknown> | undefined;
+  return parseRetryAfter(headers?.['retry-after']);
+}
+
+export function shouldRetry(
+  error: AxiosError,
+  policy: ResolvedRetryPolicy,
+  attempt: number
+): boolean {
+  if (attempt > policy.maxRetries || isCancelled(error)) return false;
+
+  const method = (error.config?.method?.toUpperCase() ?? 'GET') as HttpMethod;
+  if (!policy.methods.includes(method)) return false;
+
+  if (isTimeoutError(error)) return policy.retryOnTimeout;
+  if (isNetworkError(error)) return policy.retryOnNetworkError;
+
+  const status = error.response?.status;
+  if (!status || !policy.retryOnStatus.includes(status)) return false;
+
+  // Le serveur demande d'attendre plus longtemps que ce que la politique autorise
+  const retryAfter = getRetryAfter(error, policy);
+  return retryAfter === null || retryAfter <= policy.maxDelay;
+}
+
+export function getRetryDelay(
+  error: AxiosError,
+  policy: ResolvedRetryPolicy,
+  attempt: number
+): number {
+  const retryAfter = getRetryAfter(error, policy);
+  if (retryAfter !== null) return retryAfter;
+
+  let delay: number;
+  switch (policy.backoff) {
+    case 'exponential':
+      delay = policy.retryDelay * 2 ** (attempt - 1);
+      break;
+    case 'linear':
+      delay = policy.retryDelay * attempt;
+      break;
+    case 'fixed':
+    default:
+      delay = policy.retryDelay;
+  }
+  delay = Math.min(delay, policy.maxDelay);
+
+  if (policy.jitter === true || policy.jitter === 'full') {
+    return Math.round(Math.random() * delay);
+  }
+  if (policy.jitter === 'equal') {
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+  return delay;
+}
@@ -0,0 +1,217 @@
+import { GenericAbortSignal } from 'axios';
+import {
+  QueueStats,
+  RateLimitOptions,
+  RequestCancelledError,
+  RequestPriority,
+  SchedulerOptions,
+} from './types';
+
+const PRIORITIES: Record<Exclude<RequestPriority, number>, number> = {
+  high: 10,
+  normal: 0,
+  low: -10,
+};
+
+export function toPriorityValue(priority: RequestPriority = 'normal'): number {
+  return typeof priority === 'number' ? priority : PRIORITIES[priority];
+}
+
+// Seau à jetons : `limit` requêtes par `interval` ms, rechargé progressivement
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private options: RateLimitOptions) {
+    this.tokens = options.limit;
+  }
+
+  // Délai (ms) avant qu'un jeton soit disponible, 0 s'il l'est déjà
+  getWaitTime(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) * this.options.interval) / this.options.limit);
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const { limit, interval } = this.options;
+    this.tokens = Math.min(limit, this.tokens + ((now - this.updatedAt) * limit) / interval);
+    this.updatedAt = now;
+  }
+}
+
+interface QueuedTask {
+  service: string;
+  priority: number;
+  index: number;
+  start: () => void;
+  cancel: (error: Error) => void;
+}
+
+interface Limiter {
+  options: SchedulerOptions;
+  bucket: TokenBucket | null;
+  active: number;
+}
+
+export class RequestScheduler {
+  private queue: QueuedTask[] = [];
+  private global: Limiter;
+  private services = new Map<string, Limiter>();
+  private counter = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    options: SchedulerOptions = {},
+    private getServiceOptions: (service: string) => SchedulerOptions | undefined = () => undefined
+  ) {
+    this.global = this.createLimiter(options);
+  }
+
+  schedule<T>(
+    request: { service: string; priority?: RequestPriority; signal?: GenericAbortSignal },
+    execute: () => Promise<T>
+  ): Promise<T> {
+    const { service, signal } = request;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+
+      const onAbort = () => task.cancel(new RequestCancelledError());
+      const task: QueuedTask = {
+        service,
+        priority: toPriorityValue(request.priority),
+        index: this.counter++,
+        start: () => {
+          signal?.removeEventListener?.('abort', onAbort);
+          const limiter = this.getServiceLimiter(service);
+          this.global.active++;
+          limiter.active++;
+
+          execute()
+            .then(resolve, reject)
+            .finally(() => {
+              this.global.active--;
+              limiter.active--;
+              this.drain();
+            });
+        },
+        cancel: (error) => {
+          signal?.removeEventListener?.('abort', onAbort);
+          this.queue = this.queue.filter((queued) => queued !== task);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener?.('abort', onAbort);
+      this.queue.push(task);
+      this.drain();
+    });
+  }
+
+  // Rejette les requêtes encore en file d'attente (celles déjà envoyées ne sont pas affectées)
+  clear(predicate: (task: { service: string }) => boolean = () => true): number {
+    const cancelled = this.queue.filter(predicate);
+    cancelled.forEach((task) => task.cancel(new RequestCancelledError()));
+    return cancelled.length;
+  }
+
+  configure(options: SchedulerOptions): void {
+    this.global = { ...this.createLimiter(options), active: this.global.active };
+    // Les limites par service sont relues au prochain passage
+    this.services.forEach((limiter, service) => {
+      this.services.set(service, { ...this.createLimiter(this.getServiceOptions(service) ?? {}), active: limiter.active });
+    });
+    this.drain();
+  }
+
+  getStats(): QueueStats {
+    const services: QueueStats['services'] = {};
+    this.services.forEach((limiter, service) => {
+      services[service] = { active: limiter.active, queued: 0 };
+    });
+    this.queue.forEach((task) => {
+      services[task.service] ??= { active: 0, queued: 0 };
+      services[task.service].queued++;
+    });
+
+    return { active: this.global.active, queued: this.queue.length, services };
+  }
+
+  private createLimiter(options: SchedulerOptions): Limiter {
+    return {
+      options,
+      bucket: options.rateLimit ? new TokenBucket(options.rateLimit) : null,
+      active: 0,
+    };
+  }
+
+  private getServiceLimiter(service: string): Limiter {
+    let limiter = this.services.get(service);
+    if (!limiter) {
+      limiter = this.createLimiter(this.getServiceOptions(service) ?? {});
+      this.services.set(service, limiter);
+    }
+    return limiter;
+  }
+
+  private isSaturated(limiter: Limiter): boolean {
+    const { maxConcurrent } = limiter.options;
+    return maxConcurrent !== undefined && limiter.active >= maxConcurrent;
+  }
+
+  private drain(): void {
+    let wait = Infinity;
+    // Priorité la plus haute d'abord, puis ordre d'arrivée
+    const pending = [...this.queue].sort((a, b) => b.priority - a.priority || a.index - b.index);
+
+    for (const task of pending) {
+      if (this.isSaturated(this.global)) break;
+
+      const globalWait = this.global.bucket?.getWaitTime() ?? 0;
+      if (globalWait > 0) {
+        wait = Math.min(wait, globalWait);
+        break;
+      }
+
+      // Un service saturé ne bloque pas les requêtes des autres services
+      const limiter = this.getServiceLimiter(task.service);
+      if (this.isSaturated(limiter)) continue;
+
+      const serviceWait = limiter.bucket?.getWaitTime() ?? 0;
+      if (serviceWait > 0) {
+        wait = Math.min(wait, serviceWait);
+        continue;
+      }
+
+      this.global.bucket?.take();
+      limiter.bucket?.take();
+      this.queue = this.queue.filter((queued) => queued !== task);
+      task.start();
+    }
+
+    this.scheduleDrain(wait);
+  }
+
+  private scheduleDrain(wait: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (wait === Infinity || !this.queue.length) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, wait);
+  }
+}
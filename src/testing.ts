@@ -0,0 +1,462 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { Api } from './core';
+import { HttpMethod, RedactionOptions, RetryableAxiosRequestConfig, ServiceMap } from './types';
+import { sleep } from './cancellation';
+import { Redactor } from './redact';
+
+export interface MockRequest {
+  method: HttpMethod;
+  service?: string;
+  // Endpoint relatif avec sa query string, tel qu'envoyé par l'instance
+  url: string;
+  path: string;
+  // Paramètres extraits du motif (`/users/:id`)
+  params: Record<string, string>;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockResponder = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockCall extends MockRequest {
+  timestamp: number;
+}
+
+export type MockPathPattern = string | RegExp;
+
+export interface MockRouteOptions {
+  service?: string;
+}
+
+export interface MockAssertionOptions extends MockRouteOptions {
+  times?: number;
+}
+
+export interface MockFixture {
+  method: HttpMethod;
+  service?: string;
+  url: string;
+  status: number;
+  headers?: Record<string, string>;
+  data?: unknown;
+}
+
+export type MockMode = 'mock' | 'record' | 'replay';
+
+export interface ApiMockOptions {
+  // 'replay' par défaut si `fixtures` est fourni, sinon 'mock'
+  mode?: MockMode;
+  // Fichier JSON ou fixtures en mémoire
+  fixtures?: string | MockFixture[];
+  // Latence (ms) appliquée à toutes les réponses simulées
+  delay?: number;
+  // Transport réel utilisé en mode 'record' (défaut: adaptateur par défaut d'axios)
+  adapter?: AxiosAdapter;
+  // En-têtes et champs des corps masqués dans les fixtures enregistrées
+  redact?: RedactionOptions;
+}
+
+type MockBehavior =
+  | { kind: 'reply'; respond: MockResponder }
+  | { kind: 'networkError' }
+  | { kind: 'timeout' };
+
+const ABSOLUTE_URL = /^[a-z][a-z\d+.-]*:\/\/[^/]+/i;
+
+// `/users/:id/*` → /^\/users\/([^/]+)\/.*$/
+function compilePattern(pattern: MockPathPattern): { regex: RegExp; names: string[] } {
+  if (pattern instanceof RegExp) return { regex: pattern, names: [] };
+
+  const names: string[] = [];
+  const source = pattern
+    .split('?')[0]
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_, name: string) => {
+      names.push(name);
+      return '([^/]+)';
+    });
+  return { regex: new RegExp(`^${source}$`), names };
+}
+
+function matchPath(pattern: MockPathPattern, path: string): Record<string, string> | null {
+  const { regex, names } = compilePattern(pattern);
+  const match = regex.exec(path);
+  if (!match) return null;
+  return Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+}
+
+function toQuery(search: string, params: unknown): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  const add = (key: string, value: string) => {
+    const current = query[key];
+    query[key] = current === undefined ? value : [...(Array.isArray(current) ? current : [current]), value];
+  };
+
+  new URLSearchParams(search).forEach((value, key) => add(key, value));
+  if (params && typeof params === 'object') {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) add(key, String(value));
+    });
+  }
+  return query;
+}
+
+function toHeaders(headers: unknown): Record<string, string> {
+  const source = (headers as { toJSON?: () => unknown } | undefined)?.toJSON?.() ?? headers ?? {};
+  return Object.fromEntries(
+    Object.entries(source as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, String(value)])
+  );
+}
+
+function toBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function toMockRequest(config: InternalAxiosRequestConfig): MockRequest {
+  const url = (config.url ?? '').replace(ABSOLUTE_URL, '');
+  const [path, search = ''] = url.split('?');
+
+  return {
+    method: (config.method ?? 'get').toUpperCase() as HttpMethod,
+    service: (config as RetryableAxiosRequestConfig)._service,
+    url,
+    path,
+    params: {},
+    query: toQuery(search, config.params),
+    headers: toHeaders(config.headers),
+    body: toBody(config.data),
+  };
+}
+
+function describeRequest(method: string, url: MockPathPattern, service?: string): string {
+  return `${method} ${String(url)}${service ? ` (service ${service})` : ''}`;
+}
+
+export class MockRoute {
+  private behaviors: MockBehavior[] = [];
+  private fallback: MockBehavior | null = null;
+  private latency: number | undefined;
+
+  constructor(
+    readonly method: HttpMethod | '*',
+    readonly pattern: MockPathPattern,
+    readonly service?: string
+  ) {}
+
+  reply(status: number | MockResponder, data?: unknown, headers?: Record<string, string>): this {
+    this.fallback = { kind: 'reply', respond: this.toResponder(status, data, headers) };
+    return this;
+  }
+
+  // Les réponses ponctuelles sont consommées dans l'ordre, avant la réponse permanente
+  replyOnce(status: number | MockResponder, data?: unknown, headers?: Record<string, string>): this {
+    this.behaviors.push({ kind: 'reply', respond: this.toResponder(status, data, headers) });
+    return this;
+  }
+
+  networkError(): this {
+    this.fallback = { kind: 'networkError' };
+    return this;
+  }
+
+  networkErrorOnce(): this {
+    this.behaviors.push({ kind: 'networkError' });
+    return this;
+  }
+
+  timeout(): this {
+    this.fallback = { kind: 'timeout' };
+    return this;
+  }
+
+  timeoutOnce(): this {
+    this.behaviors.push({ kind: 'timeout' });
+    return this;
+  }
+
+  delay(ms: number): this {
+    this.latency = ms;
+    return this;
+  }
+
+  getDelay(): number | undefined {
+    return this.latency;
+  }
+
+  // Paramètres du chemin, ou `null` si la route ne correspond pas (ou n'a plus de réponse)
+  match(request: MockRequest): Record<string, string> | null {
+    if (!this.behaviors.length && !this.fallback) return null;
+    if (this.method !== '*' && this.method !== request.method) return null;
+    if (this.service && this.service !== request.service) return null;
+    return matchPath(this.pattern, request.path);
+  }
+
+  next(): MockBehavior | null {
+    return this.behaviors.shift() ?? this.fallback;
+  }
+
+  private toResponder(status: number | MockResponder, data?: unknown, headers?: Record<string, string>): MockResponder {
+    return typeof status === 'function' ? status : () => ({ status, data, headers });
+  }
+}
+
+export class ApiMock {
+  readonly adapter: AxiosAdapter = (config) => this.handle(config);
+  private routes: MockRoute[] = [];
+  private calls: MockCall[] = [];
+  private fixtures: MockFixture[] = [];
+  private replayed = new Map<string, number>();
+  private mode: MockMode;
+  private redactor: Redactor;
+
+  constructor(private options: ApiMockOptions = {}) {
+    this.mode = options.mode ?? (options.fixtures ? 'replay' : 'mock');
+    this.redactor = new Redactor(options.redact);
+
+    if (this.mode === 'replay' && options.fixtures) {
+      this.loadFixtures(options.fixtures);
+    }
+  }
+
+  // Branche le mock sur le transport de l'instance : intercepteurs, auth et re-tentatives restent actifs
+  attach<TServices extends ServiceMap>(api: Api<TServices>): this {
+    api.updateConfig({ adapter: this.adapter });
+    return this;
+  }
+
+  detach<TServices extends ServiceMap>(api: Api<TServices>): void {
+    api.updateConfig({ adapter: undefined });
+  }
+
+  // La première route déclarée qui correspond l'emporte
+  on(method: HttpMethod | '*', pattern: MockPathPattern, options: MockRouteOptions = {}): MockRoute {
+    const route = new MockRoute(method, pattern, options.service);
+    this.routes.push(route);
+    return route;
+  }
+
+  onGet(pattern: MockPathPattern, options?: MockRouteOptions): MockRoute {
+    return this.on('GET', pattern, options);
+  }
+
+  onPost(pattern: MockPathPattern, options?: MockRouteOptions): MockRoute {
+    return this.on('POST', pattern, options);
+  }
+
+  onPut(pattern: MockPathPattern, options?: MockRouteOptions): MockRoute {
+    return this.on('PUT', pattern, options);
+  }
+
+  onPatch(pattern: MockPathPattern, options?: MockRouteOptions): MockRoute {
+    return this.on('PATCH', pattern, options);
+  }
+
+  onDelete(pattern: MockPathPattern, options?: MockRouteOptions): MockRoute {
+    return this.on('DELETE', pattern, options);
+  }
+
+  onAny(pattern: MockPathPattern, options?: MockRouteOptions): MockRoute {
+    return this.on('*', pattern, options);
+  }
+
+  // Chaque tentative (re-tentatives, rejeu après 401) est un appel distinct
+  getCalls(method: HttpMethod | '*' = '*', pattern: MockPathPattern = '*', options: MockRouteOptions = {}): MockCall[] {
+    return this.calls.filter((call) =>
+      (method === '*' || call.method === method)
+      && (!options.service || call.service === options.service)
+      && matchPath(pattern, call.path) !== null
+    );
+  }
+
+  assertCalled(method: HttpMethod | '*', pattern: MockPathPattern, options: MockAssertionOptions = {}): void {
+    const count = this.getCalls(method, pattern, options).length;
+    const expected = options.times;
+    if (expected === undefined ? count > 0 : count === expected) return;
+
+    throw new Error(
+      `Expected ${describeRequest(method, pattern, options.service)} to be called `
+      + `${expected === undefined ? 'at least once' : `${expected} time(s)`}, but it was called ${count} time(s).`
+      + this.describeCalls()
+    );
+  }
+
+  assertNotCalled(method: HttpMethod | '*', pattern: MockPathPattern, options: MockRouteOptions = {}): void {
+    this.assertCalled(method, pattern, { ...options, times: 0 });
+  }
+
+  resetCalls(): void {
+    this.calls = [];
+  }
+
+  // Retire routes, appels et progression du rejeu ; les fixtures chargées sont conservées
+  reset(): void {
+    this.routes = [];
+    this.calls = [];
+    this.replayed.clear();
+  }
+
+  loadFixtures(fixtures: string | MockFixture[]): void {
+    if (typeof fixtures === 'string') {
+      if (!existsSync(fixtures)) {
+        throw new Error(`Fixture file not found: ${fixtures}`);
+      }
+      fixtures = JSON.parse(readFileSync(fixtures, 'utf8')) as MockFixture[];
+    }
+    this.fixtures.push(...fixtures);
+  }
+
+  getFixtures(): MockFixture[] {
+    return [...this.fixtures];
+  }
+
+  // Écrit les fixtures enregistrées (défaut: le fichier passé dans `fixtures`)
+  save(path = typeof this.options.fixtures === 'string' ? this.options.fixtures : undefined): void {
+    if (!path) {
+      throw new Error('A fixture file path is required to save recorded traffic');
+    }
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, `${JSON.stringify(this.fixtures, null, 2)}\n`);
+  }
+
+  private async handle(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const request = toMockRequest(config);
+    this.calls.push({ ...request, timestamp: Date.now() });
+
+    for (const route of this.routes) {
+      const params = route.match(request);
+      if (params) {
+        const behavior = route.next() as MockBehavior;
+        return this.execute(behavior, { ...request, params }, config, route.getDelay());
+      }
+    }
+
+    const fixture = this.findFixture(request);
+    if (fixture) {
+      return this.execute(
+        { kind: 'reply', respond: () => fixture },
+        request,
+        config
+      );
+    }
+
+    if (this.mode === 'record') {
+      return this.record(request, config);
+    }
+
+    throw new Error(`No mock handler for ${describeRequest(request.method, request.url, request.service)}`);
+  }
+
+  private async execute(
+    behavior: MockBehavior,
+    request: MockRequest,
+    config: InternalAxiosRequestConfig,
+    latency = this.options.delay ?? 0
+  ): Promise<AxiosResponse> {
+    // Une latence supérieure au timeout de la requête se comporte comme un vrai dépassement
+    const timeout = config.timeout || Infinity;
+    await this.wait(Math.min(latency, timeout), config);
+    if (behavior.kind === 'timeout' || latency >= timeout) {
+      throw new AxiosError(`timeout of ${config.timeout ?? 0}ms exceeded`, AxiosError.ECONNABORTED, config, {});
+    }
+    if (behavior.kind === 'networkError') {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+    }
+
+    const reply = await behavior.respond(request);
+    return this.settle({
+      data: reply.data,
+      status: reply.status,
+      statusText: String(reply.status),
+      headers: reply.headers ?? {},
+      config,
+      request: {},
+    });
+  }
+
+  // Même règle que les adaptateurs d'axios : `validateStatus` décide du rejet
+  private settle(response: AxiosResponse): AxiosResponse {
+    const { config, status } = response;
+    if (!config.validateStatus || config.validateStatus(status)) return response;
+
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  private async wait(ms: number, config: InternalAxiosRequestConfig): Promise<void> {
+    try {
+      await sleep(ms, config.signal);
+    } catch {
+      throw new CanceledError(undefined, undefined, config);
+    }
+    if (config.signal?.aborted) {
+      throw new CanceledError(undefined, undefined, config);
+    }
+  }
+
+  // Les réponses identiques sont rejouées dans l'ordre d'enregistrement, la dernière se répète
+  private findFixture(request: MockRequest): MockFixture | undefined {
+    const key = `${request.method} ${request.service ?? ''} ${request.url}`;
+    const candidates = this.fixtures.filter((fixture) =>
+      `${fixture.method} ${fixture.service ?? ''} ${fixture.url}` === key
+    );
+    if (!candidates.length) return undefined;
+
+    const index = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, index + 1);
+    return candidates[Math.min(index, candidates.length - 1)];
+  }
+
+  private async record(request: MockRequest, config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const adapter = this.options.adapter ?? axios.getAdapter(axios.defaults.adapter);
+    const keep = (response: AxiosResponse) => {
+      this.fixtures.push({
+        method: request.method,
+        service: request.service,
+        url: request.url,
+        status: response.status,
+        headers: this.redactor.redactHeaders(toHeaders(response.headers)),
+        data: this.redactor.redactBody(toBody(response.data)),
+      });
+    };
+
+    try {
+      const response = await adapter(config);
+      keep(response);
+      return response;
+    } catch (error) {
+      // Les réponses d'erreur sont enregistrées ; les erreurs réseau ne le sont pas
+      const response = (error as AxiosError).response;
+      if (response) keep(response);
+      throw error;
+    }
+  }
+
+  private describeCalls(): string {
+    if (!this.calls.length) return '\nNo calls were made.';
+    return `\nCalls:\n${this.calls
+      .map((call) => `  ${describeRequest(call.method, call.url, call.service)}`)
+      .join('\n')}`;
+  }
+}
@@ -0,0 +1,39 @@
+import { SessionData } from './types';
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  // Décodage UTF-8 sans TextDecoder, absent de certains environnements
+  const encoded = Array.from(atob(padded), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`);
+  return decodeURIComponent(encoded.join(''));
+}
+
+// Lit le claim `exp` (secondes) d'un JWT, sans vérifier sa signature
+export function decodeJwtExpiry(token: string): number | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const payload = JSON.parse(decodeBase64Url(parts[1]));
+    return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseExpiresAt(value: SessionData['expiresAt']): number | null {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.getTime();
+
+  if (typeof value === 'number') {
+    // Un timestamp en secondes reste inférieur à 1e11 jusqu'en l'an 5138
+    return value < 1e11 ? value * 1000 : value;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date;
+}
+
+export function getTokenExpiry(token: string, expiresAt?: SessionData['expiresAt']): number | null {
+  return parseExpiresAt(expiresAt) ?? decodeJwtExpiry(token);
+}
@@ -0,0 +1,57 @@
+import { RequestSpan, Tracer, W3CTracerOptions } from './types';
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// Tracer par défaut : aucun en-tête ajouté
+export const noopTracer: Tracer = {
+  startSpan: () => undefined,
+};
+
+export function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  if (globalThis.crypto?.getRandomValues) {
+    globalThis.crypto.getRandomValues(values);
+  } else {
+    values.forEach((_, index) => {
+      values[index] = Math.floor(Math.random() * 256);
+    });
+  }
+  return Array.from(values, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function parseTraceparent(
+  value: string | null | undefined
+): { traceId: string; parentId: string; sampled: boolean } | null {
+  const match = value ? TRACEPARENT_PATTERN.exec(value.trim().toLowerCase()) : null;
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+
+  return { traceId: match[1], parentId: match[2], sampled: (parseInt(match[3], 16) & 1) === 1 };
+}
+
+export function formatTraceparent(traceId: string, spanId: string, sampled = true): string {
+  return `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+}
+
+// Propagation W3C sans dépendance : un span par requête, rattaché à la trace parente si elle existe
+export function w3cTracer(options: W3CTracerOptions = {}): Tracer {
+  return {
+    startSpan: (context): RequestSpan | undefined => {
+      if (options.services && !options.services.includes(context.service)) return undefined;
+
+      const parent = parseTraceparent(options.getParent?.());
+      const sampled = options.sampled ?? parent?.sampled ?? true;
+
+      return {
+        traceparent: formatTraceparent(parent?.traceId ?? randomHex(16), randomHex(8), sampled),
+        tracestate: options.tracestate,
+      };
+    },
+  };
+}
+
+export function getTraceHeaders(span: RequestSpan | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (span?.traceparent) headers.traceparent = span.traceparent;
+  if (span?.tracestate) headers.tracestate = span.tracestate;
+  return headers;
+}
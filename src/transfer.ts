@@ -0,0 +1,65 @@
+import { AxiosProgressEvent } from 'axios';
+import { ProgressCallback, UploadFields, UploadFile, UploadValue } from './types';
+
+function isUploadFile(value: UploadValue): value is UploadFile {
+  return typeof value === 'object' && !(value instanceof Blob) && 'data' in value;
+}
+
+function toBlob(file: UploadFile): Blob {
+  if (file.data instanceof Blob) return file.data;
+  return new Blob([file.data as BlobPart], file.contentType ? { type: file.contentType } : undefined);
+}
+
+export function buildFormData(fields: FormData | UploadFields): FormData {
+  if (fields instanceof FormData) return fields;
+
+  const formData = new FormData();
+  Object.entries(fields).forEach(([name, value]) => {
+    if (value === undefined || value === null) return;
+
+    // Un tableau ajoute plusieurs valeurs sous le même nom (ex: plusieurs fichiers)
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((item) => {
+      if (isUploadFile(item)) {
+        formData.append(name, toBlob(item), item.filename ?? 'blob');
+      } else if (item instanceof Blob) {
+        formData.append(name, item);
+      } else {
+        formData.append(name, String(item));
+      }
+    });
+  });
+  return formData;
+}
+
+// Gère `filename="rapport.pdf"` et la forme encodée RFC 5987 `filename*=UTF-8''rapport%20final.pdf`
+export function parseContentDisposition(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+
+  const extended = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim().replace(/^"(.*)"$/, '$1'));
+    } catch {
+      // Encodage invalide : se rabattre sur le paramètre `filename`
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*("(?:[^"\\]|\\.)*"|[^;]+)/i);
+  if (!plain) return undefined;
+
+  const value = plain[1].trim();
+  return value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+}
+
+export function getDefaultResponseType(): 'blob' | 'stream' {
+  return typeof window !== 'undefined' && typeof window.document !== 'undefined' ? 'blob' : 'stream';
+}
+
+export function toProgressHandler(
+  onProgress?: ProgressCallback
+): ((event: AxiosProgressEvent) => void) | undefined {
+  if (!onProgress) return undefined;
+
+  return (event) => onProgress({ loaded: event.loaded, total: event.total, progress: event.progress });
+}
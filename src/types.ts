@@ -1,57 +1,788 @@
-import { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { AxiosAdapter, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+// Contexte d'une erreur, sans données sensibles (en-têtes et champs masqués)
+export interface ErrorContext {
+  endpoint?: string;
+  method?: HttpMethod;
+  service?: string;
+  url?: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  requestData?: unknown;
+  responseData?: unknown;
+}
+
+export interface RedactionOptions {
+  // Ajoutés aux listes par défaut, comparaison insensible à la casse
+  headers?: string[];
+  fields?: string[];
+}
+
+export type FieldErrors = Record<string, string[]>;
 
 export class ApiError extends Error {
+  // Non énumérable, comme `new Error(message, { cause })` : l'erreur Axios d'origine
+  // (et ses en-têtes d'authentification) reste hors de JSON.stringify et des outils de suivi
+  declare public cause?: unknown;
+
   constructor(
     message: string,
     public status?: number,
     public code?: string,
-    public context?: string
+    public context?: ErrorContext,
+    cause?: unknown
   ) {
     super(message);
     this.name = 'ApiError';
+    Object.defineProperty(this, 'cause', { value: cause, writable: true, configurable: true, enumerable: false });
   }
 }
 
 export class AuthenticationError extends ApiError {
-  constructor(message: string) {
-    super(message, 401, 'AUTHENTICATION_ERROR');
+  constructor(message: string, context?: ErrorContext, cause?: unknown) {
+    super(message, 401, 'AUTHENTICATION_ERROR', context, cause);
     this.name = 'AuthenticationError';
   }
 }
 
+export class NetworkError extends ApiError {
+  constructor(message: string, code = 'NETWORK_ERROR', context?: ErrorContext, cause?: unknown) {
+    super(message, undefined, code, context, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message: string, code = 'TIMEOUT', context?: ErrorContext, cause?: unknown) {
+    super(message, undefined, code, context, cause);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, code = 'NOT_FOUND', context?: ErrorContext, cause?: unknown) {
+    super(message, 404, code, context, cause);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, code = 'CONFLICT', context?: ErrorContext, cause?: unknown) {
+    super(message, 409, code, context, cause);
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    // Délai demandé par l'en-tête Retry-After, en millisecondes
+    public retryAfter?: number,
+    code = 'RATE_LIMITED',
+    context?: ErrorContext,
+    cause?: unknown
+  ) {
+    super(message, 429, code, context, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, status = 500, code = 'SERVER_ERROR', context?: ErrorContext, cause?: unknown) {
+    super(message, status, code, context, cause);
+    this.name = 'ServerError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(
+    message: string,
+    public fieldErrors: FieldErrors = {},
+    status = 422,
+    code = 'VALIDATION_ERROR',
+    context?: ErrorContext,
+    cause?: unknown
+  ) {
+    super(message, status, code, context, cause);
+    this.name = 'ValidationError';
+  }
+}
+
+export class RequestCancelledError extends ApiError {
+  constructor(message = 'Request cancelled', public reason?: unknown) {
+    super(message, undefined, 'REQUEST_CANCELLED');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class CircuitOpenError extends ApiError {
+  constructor(
+    message: string,
+    public service: string,
+    // Délai restant avant la prochaine requête d'essai, en millisecondes
+    public retryAfter: number
+  ) {
+    super(message, undefined, 'CIRCUIT_OPEN');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class ResponseValidationError extends ApiError {
+  constructor(
+    message: string,
+    public issues: unknown[],
+    status?: number,
+    context?: ErrorContext
+  ) {
+    super(message, status, 'RESPONSE_VALIDATION_ERROR', context);
+    this.name = 'ResponseValidationError';
+  }
+}
+
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 export type SearchParams = Record<
   string,
   any
 >;
 
-export type ServiceType =
-  | 'service_1'
-  | 'service_2'
-  | 'service_3'
-  | 'service_4'
-  | 'service_5';
+// Sérialisation de la query string
+export type QueryArrayFormat = 'repeat' | 'brackets' | 'indices' | 'comma';
+export type QueryObjectFormat = 'brackets' | 'dots';
+
+export interface QuerySerializerOptions {
+  // `tags=a&tags=b`, `tags[]=a`, `tags[0]=a` ou `tags=a,b` (défaut)
+  arrayFormat?: QueryArrayFormat;
+  // `filter[name]=x` (défaut) ou `filter.name=x`
+  objectFormat?: QueryObjectFormat;
+  // ISO 8601 (défaut), timestamp en millisecondes ou format personnalisé
+  dateFormat?: 'iso' | 'timestamp' | ((date: Date) => string);
+  skipEmptyString?: boolean;
+  skipNull?: boolean;
+  skipFalse?: boolean;
+}
+
+export type QuerySerializer = (params: SearchParams) => string;
+
+// Planification des requêtes
+export type RequestPriority = 'high' | 'normal' | 'low' | number;
+
+export interface RateLimitOptions {
+  // Nombre de requêtes autorisées par intervalle
+  limit: number;
+  // Durée de l'intervalle en ms
+  interval: number;
+}
+
+export interface SchedulerOptions {
+  maxConcurrent?: number;
+  rateLimit?: RateLimitOptions;
+}
+
+export interface QueueStats {
+  active: number;
+  queued: number;
+  services: Record<string, { active: number; queued: number }>;
+}
+
+// Disjoncteur par service
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChange {
+  service: string;
+  state: CircuitState;
+  previousState: CircuitState;
+}
+
+export interface CircuitBreakerOptions {
+  // Nombre d'échecs dans la fenêtre qui ouvre le circuit (défaut: 5)
+  failureThreshold?: number;
+  // Fenêtre glissante de comptage des échecs, en ms (défaut: 60000)
+  window?: number;
+  // Durée d'ouverture avant une requête d'essai, en ms (défaut: 30000)
+  cooldown?: number;
+  // Requêtes d'essai simultanées en semi-ouvert (défaut: 1)
+  halfOpenRequests?: number;
+  // Erreurs comptées comme des pannes (défaut: réseau, timeout et 5xx)
+  isFailure?: (error: unknown) => boolean;
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+export type RetryBackoff = 'fixed' | 'linear' | 'exponential';
+
+export interface RetryContext {
+  attempt: number;
+  delay: number;
+  error: AxiosError;
+  method: HttpMethod;
+  url: string;
+  service?: string;
+}
+
+export interface RetryPolicy {
+  maxRetries?: number;
+  retryDelay?: number;
+  maxDelay?: number;
+  backoff?: RetryBackoff;
+  jitter?: boolean | 'full' | 'equal';
+  retryOnStatus?: number[];
+  retryOnNetworkError?: boolean;
+  retryOnTimeout?: boolean;
+  methods?: HttpMethod[];
+  respectRetryAfter?: boolean;
+  onRetry?: (context: RetryContext) => void;
+}
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+// Requête transmise aux fournisseurs d'authentification, qui complètent `headers` et `params`
+export interface AuthRequest {
+  method: HttpMethod;
+  // Endpoint relatif au baseURL, paramètres de recherche inclus
+  url: string;
+  baseURL?: string;
+  headers: Record<string, string>;
+  // Paramètres de requête ajoutés à l'URL
+  params: Record<string, string>;
+  data?: unknown;
+  service?: string;
+}
+
+export interface AuthProvider {
+  apply(request: AuthRequest): void | Promise<void>;
+  // Appelé sur un 401 : retourne true si la requête peut être rejouée
+  refresh?(): boolean | Promise<boolean>;
+  // Identité stable pour les clés de cache et de déduplication, à la place des en-têtes et paramètres ajoutés
+  // (utile quand ils changent à chaque requête, comme une signature horodatée)
+  identity?(): string | Promise<string>;
+}
+
+export type CredentialValue = string | (() => string | null | undefined | Promise<string | null | undefined>);
+
+export interface BearerAuthOptions {
+  token: CredentialValue;
+  scheme?: string;
+}
+
+export interface ApiKeyAuthOptions {
+  key: CredentialValue;
+  name?: string;
+  in?: 'header' | 'query';
+}
+
+export interface BasicAuthOptions {
+  username: string;
+  password: string;
+}
+
+export interface OAuth2ClientCredentialsOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string | string[];
+  audience?: string;
+  params?: Record<string, string>;
+  // 'body' : identifiants dans le corps, 'basic' : en-tête Authorization Basic
+  clientAuthentication?: 'body' | 'basic';
+  // Marge (ms) avant l'expiration du token à partir de laquelle un nouveau token est demandé
+  expirySkew?: number;
+}
+
+export interface HmacAuthOptions {
+  keyId: string;
+  secret: string;
+  algorithm?: 'SHA-256' | 'SHA-384' | 'SHA-512';
+  scheme?: string;
+  timestampHeader?: string;
+  bodyHashHeader?: string;
+}
+
+// Les options d'un service surchargent la configuration globale, et sont surchargées par celles de la requête
+export interface ServiceConfig {
+  url: string;
+  // Préfixe ajouté à chaque endpoint du service (ex: '/v2')
+  basePath?: string;
+  enableAuth?: boolean;
+  // Authentification propre au service (remplace la session Bearer)
+  auth?: AuthProvider;
+  timeout?: number;
+  headers?: Record<string, string>;
+  maxRetries?: number;
+  retryDelay?: number;
+  retryPolicy?: RetryPolicy;
+  querySerializer?: QuerySerializer | QuerySerializerOptions;
+  // Limites propres au service, appliquées en plus des limites globales
+  scheduler?: SchedulerOptions;
+  // `true` active le disjoncteur avec les options par défaut
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+}
+
+export type ServiceMap = Record<string, ServiceConfig>;
+
+// Aucun service personnalisé : seuls `public` et `private` sont disponibles
+export type NoServices = Record<never, ServiceConfig>;
+
+// Services toujours présents, même sans configuration explicite
+export interface DefaultServices {
+  public: ServiceConfig;
+  private: ServiceConfig;
+}
+
+// Noms de services acceptés par une instance, déduits de ApiConfig.services
+export type ServiceType<TServices extends ServiceMap = NoServices> =
+  | keyof DefaultServices
+  | Extract<keyof TServices, string>;
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  etag?: string;
+  service: string;
+  url: string;
+  storedAt: number;
+  // Fin de la période de fraîcheur, puis de la fenêtre stale-while-revalidate
+  expiresAt: number;
+  staleUntil: number;
+  headers?: Record<string, string>;
+}
 
-export interface RequestConfig {
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+  clear(): void | Promise<void>;
+}
+
+export interface RequestCacheOptions {
+  ttl?: number;
+  staleWhileRevalidate?: number;
+}
+
+export interface CacheOptions extends RequestCacheOptions {
+  store?: CacheStore;
+  maxEntries?: number;
+}
+
+// Interface commune Standard Schema (Zod >= 3.24, Valibot >= 1.0, ArkType...)
+export interface StandardSchema<T = unknown> {
+  readonly '~standard': {
+    validate(value: unknown):
+      | { value: T; issues?: undefined }
+      | { issues: readonly unknown[] }
+      | Promise<{ value: T; issues?: undefined } | { issues: readonly unknown[] }>;
+  };
+}
+
+export interface SafeParseSchema<T = unknown> {
+  safeParse(data: unknown): { success: true; data: T } | { success: false; error: unknown };
+}
+
+export interface ParseSchema<T = unknown> {
+  parse(data: unknown): T;
+}
+
+export type TypeGuard<T = unknown> = (data: unknown) => data is T;
+
+export type ResponseSchema<T = unknown> =
+  | StandardSchema<T>
+  | SafeParseSchema<T>
+  | ParseSchema<T>
+  | TypeGuard<T>;
+
+// Options propres à la librairie, acceptées par `request` et par les méthodes get/post/...
+export interface RequestOptions<T = unknown> {
+  schema?: ResponseSchema<T>;
+  retryPolicy?: RetryPolicy;
+  cache?: boolean | RequestCacheOptions;
+  dedupe?: boolean;
+  signal?: AbortSignal;
+  tags?: string[];
+  // Ordre de passage dans la file d'attente du planificateur (défaut: 'normal')
+  priority?: RequestPriority;
+}
+
+export type ApiRequestConfig<T = unknown> = AxiosRequestConfig & RequestOptions<T>;
+
+export interface RequestConfig<TServices extends ServiceMap = NoServices, T = unknown> extends RequestOptions<T> {
   endpoint: string;
   method: HttpMethod;
   data?: any;
   searchParams?: SearchParams;
-  service?: 'public' | 'private' | ServiceType;
+  service?: ServiceType<TServices>;
   config?: AxiosRequestConfig;
 }
 
-export interface ServiceConfig {
+// Réponse complète (données, statut et en-têtes normalisés en minuscules)
+export interface ApiResponse<T = unknown> {
+  data: T;
+  status: number;
+  headers: Record<string, string>;
+}
+
+export interface PageRequest {
+  endpoint: string;
+  searchParams: SearchParams;
+}
+
+export type ItemsExtractor<TItem = unknown, TData = unknown> = (data: TData) => TItem[];
+
+export interface PaginationStrategy<TItem = unknown, TData = unknown> {
+  // Complète la requête de la première page (ex: page=1&size=20)
+  initial?(request: PageRequest): PageRequest;
+  getItems(response: ApiResponse<TData>): TItem[];
+  // Requête de la page suivante, ou null une fois la dernière page atteinte
+  getNext(response: ApiResponse<TData>, request: PageRequest, items: TItem[]): PageRequest | null;
+}
+
+export interface PagePaginationOptions<TItem = unknown, TData = unknown> {
+  pageParam?: string;
+  sizeParam?: string;
+  size?: number;
+  startPage?: number;
+  items?: ItemsExtractor<TItem, TData>;
+  totalPages?: (data: TData) => number | undefined;
+}
+
+export interface CursorPaginationOptions<TItem = unknown, TData = unknown> {
+  cursorParam?: string;
+  nextCursor: (data: TData) => string | number | null | undefined;
+  items?: ItemsExtractor<TItem, TData>;
+}
+
+export interface LinkHeaderPaginationOptions<TItem = unknown, TData = unknown> {
+  rel?: string;
+  items?: ItemsExtractor<TItem, TData>;
+}
+
+export interface Page<TItem = unknown, TData = unknown> extends ApiResponse<TData> {
+  items: TItem[];
+  index: number;
+}
+
+export interface TransferProgress {
+  loaded: number;
+  total?: number;
+  // Entre 0 et 1, absent si la taille totale est inconnue
+  progress?: number;
+}
+
+export type ProgressCallback = (progress: TransferProgress) => void;
+
+export interface UploadFile {
+  data: Blob | ArrayBuffer | ArrayBufferView;
+  filename?: string;
+  contentType?: string;
+}
+
+export type UploadValue = Blob | UploadFile | string | number | boolean;
+
+export type UploadFields = Record<string, UploadValue | UploadValue[] | null | undefined>;
+
+export interface UploadOptions<TServices extends ServiceMap = NoServices, T = unknown> extends RequestOptions<T> {
+  method?: 'POST' | 'PUT' | 'PATCH';
+  service?: ServiceType<TServices>;
+  config?: AxiosRequestConfig;
+  onProgress?: ProgressCallback;
+}
+
+export interface DownloadOptions<TServices extends ServiceMap = NoServices>
+  extends Omit<RequestOptions, 'schema' | 'cache' | 'dedupe'> {
+  searchParams?: SearchParams;
+  service?: ServiceType<TServices>;
+  config?: AxiosRequestConfig;
+  onProgress?: ProgressCallback;
+  // Par défaut : 'blob' dans un navigateur, 'stream' sous Node.js
+  responseType?: 'blob' | 'stream' | 'arraybuffer';
+}
+
+export interface DownloadResult<T = Blob> {
+  data: T;
+  filename?: string;
+  contentType?: string;
+  size?: number;
+}
+
+export interface PaginateOptions<TServices extends ServiceMap = NoServices, TItem = unknown, TData = unknown>
+  extends RequestOptions<TData> {
+  searchParams?: SearchParams;
+  service?: ServiceType<TServices>;
+  config?: AxiosRequestConfig;
+  strategy?: PaginationStrategy<TItem, TData>;
+  maxPages?: number;
+  maxItems?: number;
+}
+
+export interface MiddlewareContext {
+  method: HttpMethod;
+  // Endpoint avec les paramètres de recherche
   url: string;
-  enableAuth?: boolean;
+  service: string;
+  data?: unknown;
+  headers: Record<string, string>;
+  config: AxiosRequestConfig;
+  // Données partagées entre les middlewares d'une même requête
+  state: Record<string, unknown>;
+}
+
+export type MiddlewareNext = () => Promise<ApiResponse>;
+
+export type MiddlewareFunction = (
+  context: MiddlewareContext,
+  next: MiddlewareNext
+) => ApiResponse | Promise<ApiResponse>;
+
+// Un middleware qui court-circuite la requête (ou remplace `data`) doit répondre avec des données
+// du type attendu par l'appelant : elles ne sont validées que si la requête fournit un `schema`
+export interface Middleware<TService extends string = string> {
+  name?: string;
+  handler: MiddlewareFunction;
+  // Les middlewares s'exécutent par ordre croissant, puis par ordre d'ajout
+  order?: number;
+  // Limite le middleware à certains services (par défaut : tous)
+  services?: TService[];
 }
 
 export interface SessionData {
   accessToken: string;
+  // Timestamp (ms ou secondes), date ISO ou Date ; à défaut, le claim `exp` du JWT est utilisé
+  expiresAt?: number | string | Date;
   [key: string]: any;
 }
 
+export interface TokenChangedEvent {
+  token: string | null;
+  previousToken: string | null;
+  expiresAt: number | null;
+}
+
+// Contexte commun aux événements d'une requête
+export interface RequestEventContext {
+  // Identifiant propre à l'instance, partagé par les événements d'une même requête
+  requestId: string;
+  method: HttpMethod;
+  endpoint: string;
+  service: string;
+  tags: string[];
+}
+
+export interface RequestStartEvent extends RequestEventContext {
+  startTime: number;
+}
+
+export interface RequestEndEvent extends RequestEventContext {
+  startTime: number;
+  duration: number;
+  status?: number;
+  // Absente si la requête a réussi
+  error?: unknown;
+}
+
+export interface RequestErrorEvent extends RequestEventContext {
+  startTime: number;
+  duration: number;
+  error: ApiError;
+}
+
+export interface RetryEvent extends RetryContext {
+  requestId?: string;
+  status?: number;
+}
+
+export interface AuthRefreshEvent {
+  // `session` pour getSession/refreshSession, sinon le service du fournisseur
+  source: string;
+  success: boolean;
+  duration: number;
+}
+
+export interface AuthSignOutEvent {
+  requestId?: string;
+  service?: string;
+  url: string;
+}
+
+export interface ApiEvents {
+  tokenChanged: TokenChangedEvent;
+  'request:start': RequestStartEvent;
+  'request:end': RequestEndEvent;
+  retry: RetryEvent;
+  'auth:refresh': AuthRefreshEvent;
+  'auth:signout': AuthSignOutEvent;
+  error: RequestErrorEvent;
+}
+
+// Métriques côté client
+export interface LatencyStats {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface RequestStats {
+  // Requêtes terminées, hors annulations
+  count: number;
+  errors: number;
+  cancelled: number;
+  retries: number;
+  errorRate: number;
+  // Nombre de réponses par statut HTTP (`network` sans réponse)
+  statuses: Record<string, number>;
+  latency: LatencyStats;
+}
+
+export interface EndpointStats extends RequestStats {
+  service: string;
+  method: HttpMethod;
+  // Modèle normalisé (ex: `/users/:id`)
+  endpoint: string;
+}
+
+export interface MetricsSnapshot {
+  since: number;
+  timestamp: number;
+  total: RequestStats;
+  services: Record<string, RequestStats>;
+  endpoints: EndpointStats[];
+}
+
+export interface MetricsOptions {
+  // Durées conservées par endpoint pour les percentiles (défaut: 1000)
+  maxSamples?: number;
+  normalizeEndpoint?: (endpoint: string) => string;
+  exporter?: (snapshot: MetricsSnapshot) => void | Promise<void>;
+  // Période d'export en ms (défaut: 60000)
+  exportInterval?: number;
+  resetOnExport?: boolean;
+}
+
+// Capture du trafic au format HAR 1.2
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: HttpMethod;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: { mimeType: string; text: string };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  // 0 pour une erreur réseau ou un timeout
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: { size: number; mimeType: string; text?: string };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  // Champs personnalisés (préfixés par `_` comme le prévoit la spécification)
+  _service?: string;
+  _requestId?: string;
+  _attempt: number;
+  _error?: string;
+}
+
+export interface HarDocument {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface HarOptions {
+  // Taille du tampon circulaire (défaut: 100 tentatives)
+  maxEntries?: number;
+  // Corps des requêtes et réponses, après masquage (défaut: true)
+  includeBodies?: boolean;
+  // Application à l'origine du rapport (défaut: `ak-api-http`, sans version)
+  creator?: { name: string; version: string };
+}
+
+// Journalisation
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface LogFields {
+  requestId?: string;
+  service?: string;
+  method?: HttpMethod;
+  url?: string;
+  status?: number;
+  durationMs?: number;
+  attempt?: number;
+  // Masqués automatiquement (en-têtes et champs sensibles)
+  headers?: unknown;
+  data?: unknown;
+  error?: unknown;
+  [field: string]: unknown;
+}
+
+export type LogFunction = (message: string, fields?: LogFields) => void;
+
+// Compatible avec console, pino, winston...
+export interface Logger {
+  debug: LogFunction;
+  info: LogFunction;
+  warn: LogFunction;
+  error: LogFunction;
+}
+
+// Traçage distribué (W3C Trace Context)
+export interface RequestSpan {
+  // Valeurs des en-têtes propagés, omis s'ils sont absents
+  traceparent?: string;
+  tracestate?: string;
+  end?(result: { status?: number; error?: unknown; duration: number }): void;
+}
+
+export interface Tracer {
+  // Retourner `undefined` pour ne pas tracer la requête (ex: service tiers)
+  startSpan(context: RequestEventContext): RequestSpan | undefined;
+}
+
+export interface W3CTracerOptions {
+  tracestate?: string;
+  sampled?: boolean;
+  // `traceparent` parent (ex: celui rendu par le serveur dans la page) dont la trace est reprise
+  getParent?: () => string | null | undefined;
+  // Services dont les requêtes reçoivent les en-têtes (défaut: tous)
+  services?: string[];
+}
+
+export type ApiEventListener<TEvent> = (event: TEvent) => void;
+
 export type GetSessionFunction = () => Promise<SessionData | null>;
+export type RefreshSessionFunction = () => Promise<SessionData | null>;
 export type SignOutFunction = () => Promise<void>;
 
 export type RequestInterceptor = (
@@ -62,27 +793,127 @@ export type ResponseInterceptor = (
 ) => AxiosResponse | Promise<AxiosResponse>;
 export type ResponseErrorInterceptor = (error: AxiosError) => Promise<any>;
 
-export interface ApiConfig {
+export interface ApiConfig<TServices extends ServiceMap = NoServices> {
   baseUrl: string;
   timeout?: number;
   headers?: Record<string, string>;
   enableAuth?: boolean;
   maxRetries?: number;
   retryDelay?: number;
-  services?: {
-    public: ServiceConfig;
-    private: ServiceConfig;
-  } & Partial<Record<ServiceType, ServiceConfig>>;
+  retryPolicy?: RetryPolicy;
+  cache?: CacheOptions;
+  dedupe?: boolean;
+  redact?: RedactionOptions;
+  querySerializer?: QuerySerializer | QuerySerializerOptions;
+  scheduler?: SchedulerOptions;
+  tracer?: Tracer;
+  // Désactivées par défaut ; `true` active la collecte avec les options par défaut
+  metrics?: boolean | MetricsOptions;
+  // Capture HAR désactivée par défaut ; chaque tentative devient une entrée
+  har?: boolean | HarOptions;
+  // Authentification des services avec `enableAuth` (par défaut : Bearer via getSession/refreshSession)
+  auth?: AuthProvider;
+  // Marge (ms) avant l'expiration du token à partir de laquelle il est rafraîchi
+  tokenRefreshSkew?: number;
+  services?: TServices & Partial<DefaultServices>;
 
   getSession?: GetSessionFunction;
+  refreshSession?: RefreshSessionFunction;
   signOut?: SignOutFunction;
   onRequestError?: (error: ApiError) => void;
   debug?: boolean;
+  // Aucun log par défaut ; `debug: true` sans logger écrit dans la console
+  logger?: Logger;
+  // Niveau minimal (défaut: 'debug' en mode debug, sinon 'info')
+  logLevel?: LogLevel;
   onRequest?: RequestInterceptor;
   onResponse?: ResponseInterceptor;
+  // Transport axios (ex: `ak-api-http/testing`) ; intercepteurs et re-tentatives restent actifs
+  adapter?: AxiosAdapter;
 }
 
+// Configuration interne de l'instance, une fois les valeurs par défaut appliquées
+export type ResolvedApiConfig<TServices extends ServiceMap = NoServices> =
+  Required<Omit<ApiConfig<TServices>, 'services' | 'logger' | 'logLevel' | 'adapter'>> & {
+    services: TServices & DefaultServices;
+  } & Pick<ApiConfig<TServices>, 'logger' | 'logLevel' | 'adapter'>;
+
 export interface RetryableAxiosRequestConfig extends AxiosRequestConfig {
   _retry?: boolean;
   _retryCount?: number;
+  _retryPolicy?: RetryPolicy;
+  _service?: string;
+  _priority?: RequestPriority;
+  _requestId?: string;
+  _startTime?: number;
+  // Noms des en-têtes et paramètres ajoutés par le fournisseur d'authentification
+  _authHeaders?: string[];
+  _authParams?: string[];
 }
+
+// Contrats d'API typés
+type PathParamNames<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<`/${Rest}`>
+    : TPath extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+export type PathParams<TPath extends string> = Record<PathParamNames<TPath>, string | number>;
+
+export interface OperationTypes {
+  response?: unknown;
+  body?: unknown;
+  query?: SearchParams;
+}
+
+export interface OperationDefinition<
+  TPath extends string = string,
+  TTypes extends OperationTypes = OperationTypes,
+  TService extends string = string,
+> {
+  method: HttpMethod;
+  path: TPath;
+  service?: TService;
+  schema?: ResponseSchema<TTypes['response']>;
+  // Porteur de types uniquement, jamais renseigné à l'exécution
+  readonly __types?: TTypes;
+}
+
+export interface Contract<TService extends string = string> {
+  [name: string]: OperationDefinition<string, OperationTypes, TService> | Contract<TService>;
+}
+
+type QueryArgs<TTypes extends OperationTypes> =
+  TTypes extends { query: infer Q } ? { query: Q }
+    : TTypes extends { query?: infer Q } ? { query?: Q }
+      : unknown;
+
+type BodyArgs<TTypes extends OperationTypes> =
+  TTypes extends { body: infer B } ? { body: B }
+    : TTypes extends { body?: infer B } ? { body?: B }
+      : unknown;
+
+export type OperationArgs<TOperation> =
+  TOperation extends OperationDefinition<infer TPath, infer TTypes>
+    ? PathParams<TPath> & QueryArgs<TTypes> & BodyArgs<TTypes>
+    : never;
+
+export type OperationResponse<TOperation> =
+  TOperation extends OperationDefinition<string, infer TTypes>
+    ? unknown extends TTypes['response'] ? unknown : TTypes['response']
+    : never;
+
+// Les arguments deviennent optionnels lorsqu'aucun paramètre n'est requis
+type OperationParameters<TOperation> =
+  Record<never, never> extends OperationArgs<TOperation>
+    ? [args?: OperationArgs<TOperation>, options?: ApiRequestConfig<OperationResponse<TOperation>>]
+    : [args: OperationArgs<TOperation>, options?: ApiRequestConfig<OperationResponse<TOperation>>];
+
+export type ContractClient<TContract extends Contract> = {
+  [K in keyof TContract]: TContract[K] extends OperationDefinition
+    ? (...args: OperationParameters<TContract[K]>) => Promise<OperationResponse<TContract[K]>>
+    : TContract[K] extends Contract
+      ? ContractClient<TContract[K]>
+      : never;
+};
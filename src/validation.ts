@@ -0,0 +1,43 @@
+import { ResponseSchema } from './types';
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: unknown[] };
+
+function getIssues(error: unknown): unknown[] {
+  const issues = (error as { issues?: unknown })?.issues;
+  if (Array.isArray(issues)) return issues;
+
+  return [error instanceof Error ? error.message : error];
+}
+
+export async function validateResponse<T>(
+  schema: ResponseSchema<T>,
+  data: unknown
+): Promise<ValidationResult<T>> {
+  if (typeof schema === 'function') {
+    return schema(data)
+      ? { success: true, data }
+      : { success: false, issues: ['Response rejected by type guard'] };
+  }
+
+  if ('~standard' in schema) {
+    const result = await schema['~standard'].validate(data);
+    return result.issues
+      ? { success: false, issues: [...result.issues] }
+      : { success: true, data: (result as { value: T }).value };
+  }
+
+  if ('safeParse' in schema) {
+    const result = schema.safeParse(data);
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, issues: getIssues(result.error) };
+  }
+
+  try {
+    return { success: true, data: schema.parse(data) };
+  } catch (error) {
+    return { success: false, issues: getIssues(error) };
+  }
+}
@@ -1,7 +1,15 @@
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
+import { apiKeyAuth } from '../src/auth';
 import { Api } from '../src/core';
-import { ApiConfig, AuthenticationError, ApiError, ServiceType } from '../src/types';
+import {
+    ApiConfig,
+    AuthenticationError,
+    ApiError,
+    RequestCancelledError,
+    ResponseValidationError,
+    ServiceType,
+} from '../src/types';
 
 describe('Api', () => {
     let mockAxios: MockAdapter;
@@ -186,23 +194,41 @@ describe('Api', () => {
         });
 
         test('should use custom service with authentication', async () => {
-            const configWithCustomService: ApiConfig = {
+            const paymentsApi = new Api({
                 ...baseConfig,
                 services: {
                     public: { url: 'https://public.api.com', enableAuth: false },
                     private: { url: 'https://private.api.com', enableAuth: true },
-                    service_1: { url: 'https://service1.api.com', enableAuth: true }
+                    payments: { url: 'https://payments.api.com', enableAuth: true }
                 }
-            };
-            api = new Api(configWithCustomService);
+            });
 
-            mockAxios.onGet('https://service1.api.com/service1-data').reply((config) => {
+            mockAxios.onGet('https://payments.api.com/invoices').reply((config) => {
                 expect(config.headers?.Authorization).toBe('Bearer fake-token');
-                return [200, { service1: true }];
+                return [200, { payments: true }];
+            });
+
+            const result = await paymentsApi.get('/invoices', {}, 'payments');
+            expect(result).toEqual({ payments: true });
+        });
+
+        test('should infer service names from the configuration', async () => {
+            const analyticsApi = new Api({
+                ...baseConfig,
+                services: {
+                    analytics: { url: 'https://analytics.api.com', enableAuth: false },
+                    cms: { url: 'https://cms.api.com' }
+                }
             });
 
-            const result = await api.get('/service1-data', {}, 'service_1');
-            expect(result).toEqual({ service1: true });
+            mockAxios.onGet('https://analytics.api.com/events').reply(200, { analytics: true });
+            mockAxios.onGet('https://api.example.com/me').reply(200, { private: true });
+
+            await expect(analyticsApi.get('/events', {}, 'analytics')).resolves.toEqual({ analytics: true });
+            // Les services par défaut restent disponibles
+            await expect(analyticsApi.get('/me', {}, 'private')).resolves.toEqual({ private: true });
+            // @ts-expect-error - faute de frappe détectée à la compilation
+            await expect(analyticsApi.get('/events', {}, 'analytic')).rejects.toThrow(ApiError);
         });
 
         test('should throw error for non-existent service', async () => {
@@ -445,4 +471,539 @@ describe('Api', () => {
             }).not.toThrow();
         });
     });
+
+    describe('Session Refresh', () => {
+        test('should refresh the session and replay the request on 401', async () => {
+            const refreshSession = jest.fn().mockResolvedValue({ accessToken: 'refreshed-token' });
+            api = new Api({ ...baseConfig, refreshSession });
+
+            mockAxios.onGet('/me').reply((config) => {
+                return config.headers?.Authorization === 'Bearer refreshed-token'
+                    ? [200, { id: 1 }]
+                    : [401];
+            });
+
+            const result = await api.get('/me');
+            expect(result).toEqual({ id: 1 });
+            expect(refreshSession).toHaveBeenCalledTimes(1);
+            expect(baseConfig.signOut).not.toHaveBeenCalled();
+            expect(await api.getCurrentToken()).toBe('refreshed-token');
+        });
+
+        test('should run a single refresh for concurrent 401 responses', async () => {
+            let resolveRefresh: (session: { accessToken: string }) => void = () => undefined;
+            const refreshSession = jest.fn(
+                () => new Promise<{ accessToken: string }>((resolve) => {
+                    resolveRefresh = resolve;
+                })
+            );
+            api = new Api({ ...baseConfig, refreshSession });
+
+            mockAxios.onGet(/\/items\/\d/).reply((config) => {
+                return config.headers?.Authorization === 'Bearer refreshed-token'
+                    ? [200, { url: config.url }]
+                    : [401];
+            });
+
+            const pending = Promise.all([
+                api.get('/items/1'),
+                api.get('/items/2'),
+                api.get('/items/3'),
+            ]);
+
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            resolveRefresh({ accessToken: 'refreshed-token' });
+
+            const results = await pending;
+            expect(results).toEqual([
+                { url: '/items/1' },
+                { url: '/items/2' },
+                { url: '/items/3' },
+            ]);
+            expect(refreshSession).toHaveBeenCalledTimes(1);
+        });
+
+        test('should sign out when the refresh fails', async () => {
+            const refreshSession = jest.fn().mockRejectedValue(new Error('Refresh failed'));
+            api = new Api({ ...baseConfig, refreshSession });
+
+            mockAxios.onGet('/me').reply(401);
+
+            await expect(api.get('/me')).rejects.toThrow(AuthenticationError);
+            expect(refreshSession).toHaveBeenCalledTimes(1);
+            expect(baseConfig.signOut).toHaveBeenCalled();
+        });
+
+        test('should sign out when the replayed request gets a second 401', async () => {
+            const refreshSession = jest.fn().mockResolvedValue({ accessToken: 'refreshed-token' });
+            api = new Api({ ...baseConfig, refreshSession });
+
+            let attempts = 0;
+            mockAxios.onGet('/me').reply(() => {
+                attempts++;
+                return [401];
+            });
+
+            await expect(api.get('/me')).rejects.toThrow(AuthenticationError);
+            expect(attempts).toBe(2);
+            expect(refreshSession).toHaveBeenCalledTimes(1);
+            expect(baseConfig.signOut).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Retry Policy', () => {
+        test('should not retry non-idempotent methods by default', async () => {
+            let attempts = 0;
+            mockAxios.onPost('/orders').reply(() => {
+                attempts++;
+                return [503];
+            });
+
+            await expect(api.post('/orders', { id: 1 })).rejects.toBeInstanceOf(ApiError);
+            expect(attempts).toBe(1);
+        });
+
+        test('should retry 429 responses with a per-request policy', async () => {
+            const onRetry = jest.fn();
+            let attempts = 0;
+            mockAxios.onGet('/flaky').reply(() => {
+                attempts++;
+                if (attempts === 1) return [429, {}, { 'retry-after': '0' }];
+                return [200, { ok: true }];
+            });
+
+            const result = await api.get('/flaky', undefined, 'private', {
+                retryPolicy: { retryDelay: 0, onRetry },
+            });
+
+            expect(result).toEqual({ ok: true });
+            expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+                attempt: 1,
+                delay: 0,
+                method: 'GET',
+                url: '/flaky',
+                service: 'private',
+            }));
+        });
+
+        test('should apply service and request policies over the global one', async () => {
+            const servicesApi = new Api({
+                ...baseConfig,
+                retryPolicy: { retryDelay: 0, retryOnNetworkError: true },
+                services: {
+                    analytics: { url: 'https://analytics.api.com', retryPolicy: { maxRetries: 0 } },
+                },
+            });
+
+            let analyticsAttempts = 0;
+            mockAxios.onGet('https://analytics.api.com/events').reply(() => {
+                analyticsAttempts++;
+                return [503];
+            });
+            let privateAttempts = 0;
+            mockAxios.onPost('/sync').reply(() => {
+                privateAttempts++;
+                return privateAttempts < 2 ? [503] : [200, { synced: true }];
+            });
+
+            await expect(servicesApi.get('/events', undefined, 'analytics')).rejects.toBeInstanceOf(ApiError);
+            expect(analyticsAttempts).toBe(1);
+
+            const result = await servicesApi.request({
+                endpoint: '/sync',
+                method: 'POST',
+                retryPolicy: { methods: ['POST'] },
+            });
+            expect(result).toEqual({ synced: true });
+            expect(privateAttempts).toBe(2);
+        });
+    });
+
+    describe('Response Cache', () => {
+        test('should serve cached GET responses', async () => {
+            let calls = 0;
+            mockAxios.onGet('/countries?lang=fr').reply(() => {
+                calls++;
+                return [200, ['ci', 'fr']];
+            });
+
+            const first = await api.get('/countries', { lang: 'fr' }, 'private', { cache: true });
+            const second = await api.get('/countries', { lang: 'fr' }, 'private', { cache: { ttl: 1000 } });
+            await api.get('/countries', { lang: 'fr' });
+
+            expect(first).toEqual(['ci', 'fr']);
+            expect(second).toEqual(['ci', 'fr']);
+            expect(calls).toBe(2);
+        });
+
+        test('should keep cached entries apart per auth token', async () => {
+            mockAxios.onGet('/me').reply((config) => [200, { auth: config.headers?.Authorization }]);
+
+            api.setToken('token-a');
+            const first = await api.get('/me', undefined, 'private', { cache: true });
+            api.setToken('token-b');
+            const second = await api.get('/me', undefined, 'private', { cache: true });
+
+            expect(first).toEqual({ auth: 'Bearer token-a' });
+            expect(second).toEqual({ auth: 'Bearer token-b' });
+        });
+
+        test('should keep cached entries apart per credential sent by the auth provider or headers', async () => {
+            api = new Api({ baseUrl: 'https://api.example.com', auth: apiKeyAuth({ key: 'key-a', in: 'query' }) });
+            mockAxios.onGet(/\/me/).reply((config) => [200, { key: config.params?.api_key, tenant: config.headers?.['X-Api-Key'] }]);
+
+            const first = await api.get('/me', undefined, 'private', { cache: true });
+            api.updateConfig({ auth: apiKeyAuth({ key: 'key-b', in: 'query' }) });
+            const second = await api.get('/me', undefined, 'private', { cache: true });
+            api.updateConfig({ headers: { 'X-Api-Key': 'tenant-b' } });
+            const third = await api.get('/me', undefined, 'private', { cache: true });
+
+            expect(first).toEqual({ key: 'key-a' });
+            expect(second).toEqual({ key: 'key-b' });
+            expect(third).toEqual({ key: 'key-b', tenant: 'tenant-b' });
+            expect(mockAxios.history.get).toHaveLength(3);
+        });
+
+        test('should invalidate cached entries after a mutation', async () => {
+            let version = 1;
+            mockAxios.onGet('/settings').reply(() => [200, { version }]);
+            mockAxios.onPut('/settings').reply(() => {
+                version++;
+                return [200];
+            });
+
+            await api.get('/settings', undefined, 'private', { cache: true });
+            await api.put('/settings', { theme: 'dark' });
+            await api.invalidate('/settings');
+
+            const result = await api.get('/settings', undefined, 'private', { cache: true });
+            expect(result).toEqual({ version: 2 });
+        });
+
+        test('should send If-None-Match and reuse cached data on 304', async () => {
+            api = new Api({ ...baseConfig, cache: { ttl: 0 } });
+            mockAxios.onGet('/catalog').reply((config) => {
+                return config.headers?.['If-None-Match'] === '"v1"'
+                    ? [304]
+                    : [200, { items: [1, 2] }, { etag: '"v1"' }];
+            });
+
+            await api.get('/catalog', undefined, 'private', { cache: true });
+            const result = await api.get('/catalog', undefined, 'private', { cache: true });
+
+            expect(result).toEqual({ items: [1, 2] });
+            expect(mockAxios.history.get).toHaveLength(2);
+        });
+    });
+
+    describe('Request Deduplication', () => {
+        const delayedReply = (body: unknown) => () =>
+            new Promise<[number, unknown]>((resolve) => setTimeout(() => resolve([200, body]), 10));
+
+        test('should share identical concurrent GET requests', async () => {
+            mockAxios.onGet('/me').reply(delayedReply({ id: 1 }));
+
+            const results = await Promise.all([api.get('/me'), api.get('/me'), api.get('/me')]);
+
+            expect(results).toEqual([{ id: 1 }, { id: 1 }, { id: 1 }]);
+            expect(mockAxios.history.get).toHaveLength(1);
+        });
+
+        test('should not share requests that differ or opt out', async () => {
+            mockAxios.onGet(/\/users/).reply(delayedReply([]));
+            mockAxios.onPost('/users').reply(201);
+
+            await Promise.all([
+                api.get('/users', { page: 1 }),
+                api.get('/users', { page: 2 }),
+                api.get('/users', { page: 1 }, 'private', { dedupe: false }),
+                api.post('/users', { name: 'A' }),
+                api.post('/users', { name: 'A' }),
+            ]);
+
+            expect(mockAxios.history.get).toHaveLength(3);
+            expect(mockAxios.history.post).toHaveLength(2);
+        });
+
+        test('should keep the shared request alive when one caller aborts', async () => {
+            mockAxios.onGet('/me').reply(delayedReply({ id: 1 }));
+            const controller = new AbortController();
+
+            const aborted = api.get('/me', undefined, 'private', { signal: controller.signal });
+            const kept = api.get('/me');
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            controller.abort();
+
+            await expect(aborted).rejects.toBeInstanceOf(ApiError);
+            await expect(kept).resolves.toEqual({ id: 1 });
+        });
+
+        test('should keep a shared cache revalidation alive when one caller aborts', async () => {
+            mockAxios.onGet('/me').reply(delayedReply({ id: 1 }));
+            const controller = new AbortController();
+
+            const aborted = api.get('/me', undefined, 'private', { signal: controller.signal, cache: true });
+            const kept = api.get('/me', undefined, 'private', { cache: true });
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            controller.abort();
+
+            await expect(aborted).rejects.toBeInstanceOf(ApiError);
+            await expect(kept).resolves.toEqual({ id: 1 });
+            expect(mockAxios.history.get).toHaveLength(1);
+        });
+    });
+
+    describe('Cancellation', () => {
+        const delayedReply = () =>
+            new Promise<[number, unknown]>((resolve) => setTimeout(() => resolve([200, { ok: true }]), 50));
+
+        test('should reject with RequestCancelledError when the signal aborts', async () => {
+            mockAxios.onGet('/slow').reply(delayedReply);
+            const controller = new AbortController();
+
+            const pending = api.get('/slow', undefined, 'private', { signal: controller.signal, dedupe: false });
+            setTimeout(() => controller.abort(), 5);
+
+            await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+            expect(baseConfig.onRequestError).not.toHaveBeenCalled();
+        });
+
+        test('should accept a signal in the generic request method', async () => {
+            const controller = new AbortController();
+            controller.abort();
+            mockAxios.onPost('/orders').reply(201);
+
+            await expect(api.request({
+                endpoint: '/orders',
+                method: 'POST',
+                signal: controller.signal,
+            })).rejects.toBeInstanceOf(RequestCancelledError);
+            expect(mockAxios.history.post).toHaveLength(0);
+        });
+
+        test('should cancel every pending request', async () => {
+            mockAxios.onGet(/\/slow/).reply(delayedReply);
+
+            const pending = [api.get('/slow/1'), api.get('/slow/2')];
+            await new Promise((resolve) => setTimeout(resolve, 5));
+
+            expect(api.cancelAll()).toBe(2);
+            const results = await Promise.allSettled(pending);
+            expect(results.every((result) => result.status === 'rejected'
+                && result.reason instanceof RequestCancelledError)).toBe(true);
+        });
+
+        test('should cancel requests by tag or service', async () => {
+            const servicesApi = new Api({
+                ...baseConfig,
+                services: { analytics: { url: 'https://analytics.api.com' } },
+            });
+            mockAxios.onGet(/.*/).reply(delayedReply);
+
+            const dashboard = servicesApi.get('/widgets', undefined, 'private', { tags: ['dashboard'] });
+            const events = servicesApi.get('/events', undefined, 'analytics');
+            const profile = servicesApi.get('/me');
+            await new Promise((resolve) => setTimeout(resolve, 5));
+
+            expect(servicesApi.cancelByTag('dashboard')).toBe(1);
+            expect(servicesApi.cancelService('analytics')).toBe(1);
+
+            await expect(dashboard).rejects.toBeInstanceOf(RequestCancelledError);
+            await expect(events).rejects.toBeInstanceOf(RequestCancelledError);
+            await expect(profile).resolves.toEqual({ ok: true });
+        });
+
+        test('should stop retrying when cancelled during the retry delay', async () => {
+            mockAxios.onGet('/unstable').reply(503);
+
+            const pending = api.get('/unstable', undefined, 'private', { retryPolicy: { retryDelay: 1000 } });
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            api.cancelAll();
+
+            await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+            expect(mockAxios.history.get).toHaveLength(1);
+            expect(baseConfig.onRequestError).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Response Validation', () => {
+        const userSchema = {
+            parse: (data: unknown): { id: number; name: string } => {
+                const user = data as { id: unknown; name: unknown };
+                if (typeof user?.id !== 'number' || typeof user?.name !== 'string') {
+                    throw Object.assign(new Error('Invalid user'), { issues: [{ path: ['name'] }] });
+                }
+                return { id: user.id, name: user.name };
+            },
+        };
+
+        test('should return data inferred from the schema', async () => {
+            mockAxios.onGet('/users/1').reply(200, { id: 1, name: 'Ada' });
+
+            const user = await api.get('/users/1', undefined, 'private', { schema: userSchema });
+            const name: string = user.name;
+
+            expect(name).toBe('Ada');
+        });
+
+        test('should reject with ResponseValidationError on contract drift', async () => {
+            mockAxios.onGet('/users/2').reply(200, { id: 2 });
+
+            const error = await api.request({
+                endpoint: '/users/2',
+                method: 'GET',
+                schema: userSchema,
+            }).catch((err: unknown) => err);
+
+            expect(error).toBeInstanceOf(ResponseValidationError);
+            expect((error as ResponseValidationError).issues).toEqual([{ path: ['name'] }]);
+            expect((error as ResponseValidationError).context).toMatchObject({
+                endpoint: '/users/2',
+                method: 'GET',
+                service: 'private',
+            });
+            expect(baseConfig.onRequestError).toHaveBeenCalledWith(error);
+        });
+    });
+
+    describe('Without Authentication', () => {
+        const publicConfig: ApiConfig = {
+            baseUrl: 'https://partner.example.com',
+            enableAuth: false,
+            onRequestError: jest.fn(),
+            retryPolicy: { retryDelay: 0 },
+        };
+
+        test('should retry failed requests', async () => {
+            api = new Api(publicConfig);
+            mockAxios.onGet('/catalog').replyOnce(503).onGet('/catalog').reply(200, ['item']);
+
+            await expect(api.get('/catalog')).resolves.toEqual(['item']);
+            expect(mockAxios.history.get).toHaveLength(2);
+        });
+
+        test('should run the onRequest and onResponse hooks', async () => {
+            const onRequest = jest.fn((config) => ({ ...config, headers: { ...config.headers, 'X-Partner': 'ak' } }));
+            const onResponse = jest.fn((response) => response);
+            api = new Api({ ...publicConfig, onRequest, onResponse });
+            mockAxios.onGet('/catalog').reply(200, []);
+
+            await api.get('/catalog');
+
+            expect(mockAxios.history.get[0].headers?.['X-Partner']).toBe('ak');
+            expect(onResponse).toHaveBeenCalledTimes(1);
+        });
+
+        test('should normalize errors and call onRequestError', async () => {
+            api = new Api(publicConfig);
+            mockAxios.onGet('/catalog/1').reply(404, { message: 'Not found' });
+
+            const error = await api.get('/catalog/1').catch((err: unknown) => err);
+
+            expect(error).toBeInstanceOf(ApiError);
+            expect((error as ApiError).status).toBe(404);
+            expect(publicConfig.onRequestError).toHaveBeenCalledWith(error);
+        });
+
+        test('should reject 401 responses without refreshing or signing out', async () => {
+            const refreshSession = jest.fn();
+            const signOut = jest.fn();
+            api = new Api({ ...publicConfig, refreshSession, signOut });
+            mockAxios.onGet('/me').reply(401);
+
+            await expect(api.get('/me')).rejects.toBeInstanceOf(AuthenticationError);
+            expect(refreshSession).not.toHaveBeenCalled();
+            expect(signOut).not.toHaveBeenCalled();
+            expect(mockAxios.history.get).toHaveLength(1);
+        });
+
+        test('should not sign out on 401 from a public service', async () => {
+            mockAxios.onGet('/status').reply(401);
+
+            await expect(api.get('/status', undefined, 'public')).rejects.toBeInstanceOf(AuthenticationError);
+            expect(baseConfig.signOut).not.toHaveBeenCalled();
+        });
+
+        test('should toggle authentication at runtime', async () => {
+            api = new Api({ ...baseConfig, enableAuth: false });
+            mockAxios.onGet('/me').reply(200, {});
+
+            await api.get('/me');
+            api.updateConfig({ enableAuth: true });
+            await api.get('/me');
+            api.updateConfig({ enableAuth: false });
+            await api.get('/me');
+
+            expect(mockAxios.history.get.map((request) => request.headers?.Authorization)).toEqual([
+                undefined,
+                'Bearer fake-token',
+                undefined,
+            ]);
+            expect(api.isAuthEnabled()).toBe(false);
+        });
+    });
+
+    describe('Per-service Configuration', () => {
+        const createServiceApi = () => new Api({
+            ...baseConfig,
+            timeout: 5000,
+            headers: { 'X-Client': 'web', 'X-Region': 'eu' },
+            retryPolicy: { retryDelay: 0 },
+            services: {
+                analytics: { url: 'https://analytics.example.com', enableAuth: false, timeout: 60000, maxRetries: 0 },
+                payments: {
+                    url: 'https://payments.example.com/',
+                    basePath: '/v2/',
+                    enableAuth: true,
+                    headers: { 'X-Region': 'ci', 'Idempotency-Policy': 'strict' },
+                    retryPolicy: { maxRetries: 1, retryOnStatus: [503] },
+                },
+            },
+        });
+
+        test('should apply the service timeout unless the request overrides it', async () => {
+            const serviceApi = createServiceApi();
+            mockAxios.onGet('/events').reply(200, []).onGet('/users').reply(200, []);
+
+            await serviceApi.get('/events', undefined, 'analytics');
+            await serviceApi.get('/events', undefined, 'analytics', { timeout: 1000 });
+            await serviceApi.get('/users');
+
+            expect(mockAxios.history.get.map((request) => request.timeout)).toEqual([60000, 1000, 5000]);
+        });
+
+        test('should merge headers from global to service to request', async () => {
+            const serviceApi = createServiceApi();
+            mockAxios.onPost('/charges').reply(201, {});
+
+            await serviceApi.post('/charges', {}, 'payments', { headers: { 'Idempotency-Policy': 'relaxed' } });
+
+            const { headers } = mockAxios.history.post[0];
+            expect(headers?.['X-Client']).toBe('web');
+            expect(headers?.['X-Region']).toBe('ci');
+            expect(headers?.['Idempotency-Policy']).toBe('relaxed');
+            expect(headers?.Authorization).toBe('Bearer fake-token');
+        });
+
+        test('should prefix endpoints with the service base path', async () => {
+            const serviceApi = createServiceApi();
+            mockAxios.onGet('https://payments.example.com/v2/charges/1').reply(200, { id: 1 });
+
+            await expect(serviceApi.get('/charges/1', undefined, 'payments')).resolves.toEqual({ id: 1 });
+            expect(mockAxios.history.get[0].baseURL).toBe('https://payments.example.com/v2');
+        });
+
+        test('should apply service retry settings', async () => {
+            const serviceApi = createServiceApi();
+            mockAxios
+                .onGet('/events').reply(503)
+                .onGet('/charges').reply(503);
+
+            await expect(serviceApi.get('/events', undefined, 'analytics')).rejects.toBeInstanceOf(ApiError);
+            expect(mockAxios.history.get).toHaveLength(1);
+
+            await expect(serviceApi.get('/charges', undefined, 'payments')).rejects.toBeInstanceOf(ApiError);
+            expect(mockAxios.history.get).toHaveLength(3);
+        });
+    });
 });
\ No newline at end of file
@@ -0,0 +1,248 @@
+/**
+ * @jest-environment node
+ */
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { createHash, createHmac } from 'crypto';
+import { Api } from '../src/core';
+import { apiKeyAuth, basicAuth, bearerAuth, hmacAuth, oauth2ClientCredentials } from '../src/auth';
+import { AuthenticationError, AuthRequest } from '../src/types';
+
+describe('Auth providers', () => {
+    let mockAxios: MockAdapter;
+
+    const createRequest = (overrides: Partial<AuthRequest> = {}): AuthRequest => ({
+        method: 'GET',
+        url: '/users?page=1',
+        baseURL: 'https://api.example.com/v1',
+        headers: {},
+        params: {},
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        mockAxios = new MockAdapter(axios);
+    });
+
+    afterEach(() => {
+        mockAxios.reset();
+        jest.restoreAllMocks();
+    });
+
+    describe('built-in providers', () => {
+        test('bearerAuth should resolve static and lazy tokens', async () => {
+            const staticRequest = createRequest();
+            const lazyRequest = createRequest();
+
+            await bearerAuth({ token: 'static' }).apply(staticRequest);
+            await bearerAuth({ token: async () => 'lazy', scheme: 'Token' }).apply(lazyRequest);
+
+            expect(staticRequest.headers.Authorization).toBe('Bearer static');
+            expect(lazyRequest.headers.Authorization).toBe('Token lazy');
+        });
+
+        test('apiKeyAuth should set a header or a query parameter', async () => {
+            const headerRequest = createRequest();
+            const queryRequest = createRequest();
+
+            await apiKeyAuth({ key: 'k-1' }).apply(headerRequest);
+            await apiKeyAuth({ key: () => 'k-2', name: 'api_key', in: 'query' }).apply(queryRequest);
+
+            expect(headerRequest.headers['X-Api-Key']).toBe('k-1');
+            expect(queryRequest.params).toEqual({ api_key: 'k-2' });
+            expect(queryRequest.headers).toEqual({});
+        });
+
+        test('basicAuth should encode UTF-8 credentials', async () => {
+            const request = createRequest();
+
+            await basicAuth({ username: 'zoé', password: 'p4ss' }).apply(request);
+
+            expect(request.headers.Authorization).toBe(`Basic ${Buffer.from('zoé:p4ss').toString('base64')}`);
+        });
+
+        test('hmacAuth should sign method, path, timestamp and body hash', async () => {
+            jest.spyOn(Date, 'now').mockReturnValue(1735732800000);
+            const request = createRequest({ method: 'POST', url: '/charges?dry=1', data: { amount: 10 } });
+
+            await hmacAuth({ keyId: 'partner', secret: 's3cr3t' }).apply(request);
+
+            const bodyHash = createHash('sha256').update('{"amount":10}').digest('hex');
+            const signature = createHmac('sha256', 's3cr3t')
+                .update(['POST', '/v1/charges?dry=1', '1735732800', bodyHash].join('\n'))
+                .digest('hex');
+            expect(request.headers).toEqual({
+                'X-Timestamp': '1735732800',
+                'X-Content-SHA256': bodyHash,
+                Authorization: `HMAC partner:${signature}`,
+            });
+        });
+    });
+
+    describe('oauth2ClientCredentials', () => {
+        const options = {
+            tokenUrl: 'https://auth.example.com/oauth/token',
+            clientId: 'client',
+            clientSecret: 'secret',
+            scope: ['read', 'write'],
+        };
+
+        test('should fetch the token once and reuse it', async () => {
+            mockAxios.onPost(options.tokenUrl).reply(200, { access_token: 'oauth-token', expires_in: 3600 });
+            const provider = oauth2ClientCredentials(options);
+            const first = createRequest();
+            const second = createRequest();
+
+            await Promise.all([provider.apply(first), provider.apply(second)]);
+
+            expect(first.headers.Authorization).toBe('Bearer oauth-token');
+            expect(second.headers.Authorization).toBe('Bearer oauth-token');
+            expect(mockAxios.history.post).toHaveLength(1);
+            expect(Object.fromEntries(new URLSearchParams(mockAxios.history.post[0].data))).toEqual({
+                grant_type: 'client_credentials',
+                scope: 'read write',
+                client_id: 'client',
+                client_secret: 'secret',
+            });
+        });
+
+        test('should request a new token when the cached one expires', async () => {
+            const now = Date.now();
+            mockAxios.onPost(options.tokenUrl)
+                .replyOnce(200, { access_token: 'first', expires_in: 60 })
+                .onPost(options.tokenUrl)
+                .reply(200, { access_token: 'second', expires_in: 60 });
+            const provider = oauth2ClientCredentials({ ...options, clientAuthentication: 'basic' });
+            const request = createRequest();
+
+            await provider.apply(request);
+            jest.spyOn(Date, 'now').mockReturnValue(now + 31000);
+            await provider.apply(request);
+
+            expect(request.headers.Authorization).toBe('Bearer second');
+            expect(mockAxios.history.post[0].headers?.Authorization).toBe(`Basic ${Buffer.from('client:secret').toString('base64')}`);
+        });
+
+        test('should reject with AuthenticationError when the token request fails', async () => {
+            mockAxios.onPost(options.tokenUrl).reply(400, { error: 'invalid_client' });
+
+            await expect(oauth2ClientCredentials(options).apply(createRequest())).rejects.toBeInstanceOf(AuthenticationError);
+        });
+    });
+
+    describe('Api integration', () => {
+        const createApi = () => new Api({
+            baseUrl: 'https://api.example.com',
+            getSession: jest.fn().mockResolvedValue({ accessToken: 'session-token' }),
+            signOut: jest.fn(),
+            services: {
+                partner: { url: 'https://partner.example.com', auth: apiKeyAuth({ key: 'partner-key', in: 'query' }) },
+                legacy: { url: 'https://legacy.example.com', auth: basicAuth({ username: 'ak', password: 'pw' }) },
+                oauth: {
+                    url: 'https://oauth.example.com',
+                    auth: oauth2ClientCredentials({ tokenUrl: 'https://auth.example.com/token', clientId: 'c', clientSecret: 's' }),
+                },
+            },
+        });
+
+        test('should select the provider of each service in one client', async () => {
+            const api = createApi();
+            mockAxios.onGet().reply(200, {});
+
+            await api.get('/me');
+            await api.get('/offers', { country: 'CI' }, 'partner');
+            await api.get('/reports', undefined, 'legacy');
+            await api.get('/status', undefined, 'public');
+
+            const [me, offers, reports, status] = mockAxios.history.get;
+            expect(me.headers?.Authorization).toBe('Bearer session-token');
+            expect(offers.url).toBe('/offers?country=CI');
+            expect(offers.params).toEqual({ 'api_key': 'partner-key' });
+            expect(offers.headers?.Authorization).toBeUndefined();
+            expect(reports.headers?.Authorization).toMatch(/^Basic /);
+            expect(status.headers?.Authorization).toBeUndefined();
+        });
+
+        test('should refresh the provider and replay the request on 401 without signing out', async () => {
+            const signOut = jest.fn();
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                auth: oauth2ClientCredentials({ tokenUrl: 'https://auth.example.com/token', clientId: 'c', clientSecret: 's' }),
+                signOut,
+            });
+            mockAxios.onPost('https://auth.example.com/token')
+                .replyOnce(200, { access_token: 'revoked', expires_in: 3600 })
+                .onPost('https://auth.example.com/token')
+                .reply(200, { access_token: 'fresh', expires_in: 3600 });
+            mockAxios.onGet('/jobs').reply((config) =>
+                config.headers?.Authorization === 'Bearer fresh' ? [200, ['job']] : [401]
+            );
+
+            await expect(api.get('/jobs')).resolves.toEqual(['job']);
+            expect(signOut).not.toHaveBeenCalled();
+        });
+
+        test('should reject with AuthenticationError when the provider cannot refresh', async () => {
+            const api = createApi();
+            mockAxios.onGet('/reports').reply(401);
+
+            await expect(api.get('/reports', undefined, 'legacy')).rejects.toBeInstanceOf(AuthenticationError);
+            expect(mockAxios.history.get).toHaveLength(1);
+        });
+
+        test('should hit the cache for hmacAuth requests signed at different times', async () => {
+            const now = jest.spyOn(Date, 'now').mockReturnValue(1735732800000);
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                services: {
+                    partner: { url: 'https://partner.example.com', auth: hmacAuth({ keyId: 'partner', secret: 's3cr3t' }) },
+                },
+            });
+            mockAxios.onGet('/rates').reply(200, { rate: 1 });
+
+            await api.get('/rates', undefined, 'partner', { cache: true });
+            now.mockReturnValue(1735732801100);
+            await api.get('/rates', undefined, 'partner', { cache: true });
+            api.updateConfig({
+                services: { partner: { url: 'https://partner.example.com', auth: hmacAuth({ keyId: 'other', secret: 's3cr3t' }) } },
+            });
+            await api.get('/rates', undefined, 'partner', { cache: true });
+
+            expect(mockAxios.history.get).toHaveLength(2);
+            expect(mockAxios.history.get[1].headers?.Authorization).toMatch(/^HMAC other:/);
+        });
+
+        test('should keep service providers when global auth is disabled', async () => {
+            const api = createApi();
+            api.updateConfig({ enableAuth: false });
+            mockAxios.onGet().reply(200, {});
+
+            await api.get('/me');
+            await api.get('/offers', undefined, 'partner');
+
+            const [me, offers] = mockAxios.history.get;
+            expect(me.headers?.Authorization).toBeUndefined();
+            expect(offers.params).toEqual({ 'api_key': 'partner-key' });
+        });
+
+        test('should work without session callbacks when only services define auth', async () => {
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                services: {
+                    partner: { url: 'https://partner.example.com', auth: apiKeyAuth({ key: 'partner-key' }) },
+                    internal: { url: 'https://internal.example.com', auth: apiKeyAuth({ key: 'internal-key' }), enableAuth: false },
+                },
+            });
+            mockAxios.onGet().reply(200, {});
+
+            await api.get('/offers', undefined, 'partner');
+            await api.get('/health', undefined, 'internal');
+
+            const [offers, health] = mockAxios.history.get;
+            expect(offers.headers?.['X-Api-Key']).toBe('partner-key');
+            expect(health.headers?.['X-Api-Key']).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,175 @@
+import { AxiosResponse } from 'axios';
+import { buildRequestKey, MemoryCacheStore, ResponseCache } from '../src/cache';
+import { CacheEntry, RequestCancelledError } from '../src/types';
+
+const createEntry = (url: string): CacheEntry => ({
+    data: url,
+    service: 'private',
+    url,
+    storedAt: 0,
+    expiresAt: 0,
+    staleUntil: 0,
+});
+
+const createResponse = <T>(data: T, status = 200, headers: Record<string, string> = {}) =>
+    ({ data, status, statusText: '', headers, config: {} }) as AxiosResponse<T>;
+
+describe('Cache', () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 1000;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('MemoryCacheStore', () => {
+        test('should evict the least recently used entry', () => {
+            const store = new MemoryCacheStore(2);
+            store.set('a', createEntry('/a'));
+            store.set('b', createEntry('/b'));
+            store.get('a');
+            store.set('c', createEntry('/c'));
+
+            expect(store.keys()).toEqual(['a', 'c']);
+        });
+    });
+
+    describe('buildRequestKey', () => {
+        test('should ignore query parameter order', () => {
+            expect(buildRequestKey({ method: 'GET', service: 'private', url: '/users?b=2&a=1' }))
+                .toBe(buildRequestKey({ method: 'get', service: 'private', url: '/users?a=1&b=2' }));
+        });
+
+        test('should separate auth identities without exposing the token', () => {
+            const first = buildRequestKey({ method: 'GET', service: 'private', url: '/me', credentials: { authorization: 'Bearer a' } });
+            const second = buildRequestKey({ method: 'GET', service: 'private', url: '/me', credentials: { authorization: 'Bearer b' } });
+
+            expect(first).not.toBe(second);
+            expect(first).not.toContain('Bearer');
+        });
+
+        test('should include Axios params in the URL part of the key', () => {
+            expect(buildRequestKey({ method: 'GET', service: 'private', url: '/users?b=2', params: { a: 1, c: undefined } }))
+                .toBe(buildRequestKey({ method: 'GET', service: 'private', url: '/users?a=1&b=2' }));
+        });
+    });
+
+    describe('ResponseCache', () => {
+        const meta = { service: 'private', url: '/countries' };
+
+        test('should serve fresh entries without calling the fetcher', async () => {
+            const cache = new ResponseCache({ ttl: 100 });
+            const fetcher = jest.fn().mockResolvedValue(createResponse(['fr']));
+
+            await cache.fetch('key', meta, {}, fetcher);
+            now += 50;
+            const data = await cache.fetch('key', meta, {}, fetcher);
+
+            expect(data).toEqual(['fr']);
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test('should serve stale entries while revalidating in the background', async () => {
+            const cache = new ResponseCache({ ttl: 100, staleWhileRevalidate: 100 });
+            const fetcher = jest.fn()
+                .mockResolvedValueOnce(createResponse(['fr']))
+                .mockResolvedValueOnce(createResponse(['fr', 'ci']));
+
+            await cache.fetch('key', meta, {}, fetcher);
+            now += 150;
+
+            expect(await cache.fetch('key', meta, {}, fetcher)).toEqual(['fr']);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            expect(await cache.fetch('key', meta, {}, fetcher)).toEqual(['fr', 'ci']);
+            expect(fetcher).toHaveBeenCalledTimes(2);
+        });
+
+        test('should revalidate with the ETag and reuse data on 304', async () => {
+            const cache = new ResponseCache({ ttl: 100 });
+            const fetcher = jest.fn()
+                .mockResolvedValueOnce(createResponse(['fr'], 200, { etag: '"v1"' }))
+                .mockResolvedValueOnce(createResponse(null, 304));
+
+            await cache.fetch('key', meta, {}, fetcher);
+            now += 200;
+            const data = await cache.fetch('key', meta, { ttl: 500 }, fetcher);
+
+            expect(data).toEqual(['fr']);
+            expect(fetcher).toHaveBeenLastCalledWith('"v1"', expect.any(AbortSignal));
+
+            now += 400;
+            await cache.fetch('key', meta, {}, fetcher);
+            expect(fetcher).toHaveBeenCalledTimes(2);
+        });
+
+        test('should not let one caller cancel a shared revalidation', async () => {
+            const cache = new ResponseCache();
+            let resolve: (response: AxiosResponse<string>) => void = () => undefined;
+            let sharedSignal: AbortSignal | undefined;
+            const fetcher = jest.fn((_etag: string | undefined, signal: AbortSignal) => {
+                sharedSignal = signal;
+                return new Promise<AxiosResponse<string>>((res) => {
+                    resolve = res;
+                });
+            });
+            const first = new AbortController();
+            const second = new AbortController();
+
+            const aborted = cache.fetch('key', meta, {}, fetcher, first.signal);
+            const kept = cache.fetch('key', meta, {}, fetcher, second.signal);
+            await Promise.resolve();
+            first.abort();
+            resolve(createResponse('fr'));
+
+            await expect(aborted).rejects.toBeInstanceOf(RequestCancelledError);
+            await expect(kept).resolves.toBe('fr');
+            expect(fetcher).toHaveBeenCalledTimes(1);
+            expect(sharedSignal?.aborted).toBe(false);
+        });
+
+        test('should abort the revalidation when every caller aborts', async () => {
+            const cache = new ResponseCache();
+            let sharedSignal: AbortSignal | undefined;
+            const fetcher = (_etag: string | undefined, signal: AbortSignal) => {
+                sharedSignal = signal;
+                return new Promise<AxiosResponse<string>>(() => undefined);
+            };
+            const first = new AbortController();
+            const second = new AbortController();
+
+            const requests = [
+                cache.fetch('key', meta, {}, fetcher, first.signal),
+                cache.fetch('key', meta, {}, fetcher, second.signal),
+            ];
+            await Promise.resolve();
+            first.abort();
+            second.abort();
+
+            await expect(Promise.all(requests)).rejects.toBeInstanceOf(RequestCancelledError);
+            expect(sharedSignal?.aborted).toBe(true);
+        });
+
+        test('should invalidate entries matching a prefix, glob or RegExp', async () => {
+            const store = new MemoryCacheStore();
+            const cache = new ResponseCache({ store });
+            store.set('1', createEntry('/users/1'));
+            store.set('2', createEntry('/users?page=2'));
+            store.set('3', createEntry('/orders/1'));
+            store.set('4', createEntry('/orders/2/items'));
+            store.set('5', createEntry('/countries'));
+
+            await cache.invalidate('/users');
+            expect(store.keys()).toEqual(['3', '4', '5']);
+
+            await cache.invalidate('/orders/*/items');
+            expect(store.keys()).toEqual(['3', '5']);
+
+            await cache.invalidate(/^\/orders/);
+            expect(store.keys()).toEqual(['5']);
+        });
+    });
+});
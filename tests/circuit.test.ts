@@ -0,0 +1,147 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { CircuitBreaker } from '../src/circuit';
+import { CircuitOpenError, NetworkError, NotFoundError, ServerError } from '../src/types';
+
+describe('Circuit breaker', () => {
+    const fail = () => Promise.reject(new ServerError('Service unavailable', 503));
+    const succeed = () => Promise.resolve('ok');
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('CircuitBreaker', () => {
+        test('should open after the failure threshold and fail fast', async () => {
+            const onStateChange = jest.fn();
+            const circuit = new CircuitBreaker('payments', { failureThreshold: 2, cooldown: 1000, onStateChange });
+            const request = jest.fn(succeed);
+
+            await expect(circuit.execute(fail)).rejects.toBeInstanceOf(ServerError);
+            expect(circuit.getState()).toBe('closed');
+            await expect(circuit.execute(fail)).rejects.toBeInstanceOf(ServerError);
+            expect(circuit.getState()).toBe('open');
+
+            const error = await circuit.execute(request).catch((e) => e);
+            expect(error).toBeInstanceOf(CircuitOpenError);
+            expect(error).toMatchObject({ service: 'payments', code: 'CIRCUIT_OPEN', retryAfter: 1000 });
+            expect(request).not.toHaveBeenCalled();
+            expect(onStateChange).toHaveBeenCalledWith({ service: 'payments', state: 'open', previousState: 'closed' });
+        });
+
+        test('should only count failures within the rolling window', async () => {
+            const circuit = new CircuitBreaker('payments', { failureThreshold: 2, window: 1000 });
+
+            await circuit.execute(fail).catch(() => undefined);
+            jest.advanceTimersByTime(1500);
+            await circuit.execute(fail).catch(() => undefined);
+
+            expect(circuit.getState()).toBe('closed');
+        });
+
+        test('should close after a successful trial request', async () => {
+            const onStateChange = jest.fn();
+            const circuit = new CircuitBreaker('payments', { failureThreshold: 1, cooldown: 1000, onStateChange });
+
+            await circuit.execute(fail).catch(() => undefined);
+            jest.advanceTimersByTime(1000);
+            expect(circuit.getState()).toBe('half-open');
+
+            await expect(circuit.execute(succeed)).resolves.toBe('ok');
+            expect(circuit.getState()).toBe('closed');
+            expect(onStateChange.mock.calls.map(([change]) => change.state)).toEqual(['open', 'half-open', 'closed']);
+        });
+
+        test('should reopen when the trial request fails', async () => {
+            const circuit = new CircuitBreaker('payments', { failureThreshold: 1, cooldown: 1000 });
+
+            await circuit.execute(fail).catch(() => undefined);
+            jest.advanceTimersByTime(1000);
+            await circuit.execute(fail).catch(() => undefined);
+
+            expect(circuit.getState()).toBe('open');
+        });
+
+        test('should allow a single trial request while half-open', async () => {
+            const circuit = new CircuitBreaker('payments', { failureThreshold: 1, cooldown: 1000 });
+            await circuit.execute(fail).catch(() => undefined);
+            jest.advanceTimersByTime(1000);
+
+            let resolveTrial!: (value: string) => void;
+            const trial = circuit.execute(() => new Promise<string>((resolve) => {
+                resolveTrial = resolve;
+            }));
+
+            await expect(circuit.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+            resolveTrial('ok');
+            await expect(trial).resolves.toBe('ok');
+        });
+
+        test('should ignore client errors by default', async () => {
+            const circuit = new CircuitBreaker('payments', { failureThreshold: 1 });
+
+            await circuit.execute(() => Promise.reject(new NotFoundError('Not found'))).catch(() => undefined);
+            expect(circuit.getState()).toBe('closed');
+
+            await circuit.execute(() => Promise.reject(new NetworkError('Network Error'))).catch(() => undefined);
+            expect(circuit.getState()).toBe('open');
+        });
+
+        test('should support a custom failure predicate', async () => {
+            const circuit = new CircuitBreaker('payments', {
+                failureThreshold: 1,
+                isFailure: (error) => error instanceof NotFoundError,
+            });
+
+            await circuit.execute(() => Promise.reject(new NotFoundError('Not found'))).catch(() => undefined);
+            expect(circuit.getState()).toBe('open');
+        });
+    });
+
+    describe('Api integration', () => {
+        let mockAxios: MockAdapter;
+
+        beforeEach(() => {
+            mockAxios = new MockAdapter(axios);
+        });
+
+        afterEach(() => {
+            mockAxios.reset();
+        });
+
+        test('should fail fast once the service circuit is open', async () => {
+            const onRequestError = jest.fn();
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                maxRetries: 0,
+                onRequestError,
+                services: {
+                    payments: { url: 'https://payments.example.com', circuitBreaker: { failureThreshold: 2 } },
+                },
+            });
+            mockAxios.onGet('/invoices').reply(503);
+            mockAxios.onGet('/users').reply(200, []);
+
+            await expect(api.get('/invoices', undefined, 'payments')).rejects.toBeInstanceOf(ServerError);
+            await expect(api.get('/invoices', undefined, 'payments')).rejects.toBeInstanceOf(ServerError);
+            expect(api.getCircuitState('payments')).toBe('open');
+
+            await expect(api.get('/invoices', undefined, 'payments')).rejects.toBeInstanceOf(CircuitOpenError);
+            expect(mockAxios.history.get).toHaveLength(2);
+            expect(onRequestError).toHaveBeenLastCalledWith(expect.any(CircuitOpenError));
+
+            // Les autres services ne sont pas affectés
+            await expect(api.get('/users')).resolves.toEqual([]);
+            expect(api.getCircuitState('private')).toBeNull();
+
+            api.resetCircuit('payments');
+            expect(api.getCircuitState('payments')).toBe('closed');
+        });
+    });
+});
@@ -0,0 +1,135 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { defineContract, interpolatePath, operation } from '../src/contract';
+import { ApiError } from '../src/types';
+
+interface User {
+    id: number;
+    name: string;
+}
+
+const contract = defineContract({
+    users: {
+        getById: operation<{ response: User }>()({ method: 'GET', path: '/users/:id' }),
+        list: operation<{ response: User[]; query?: { page?: number } }>()({ method: 'GET', path: '/users' }),
+        create: operation<{ response: User; body: { name: string } }>()({
+            method: 'POST',
+            path: '/users',
+            service: 'accounts',
+        }),
+    },
+    files: {
+        get: operation<{ response: string }>()({ method: 'GET', path: '/folders/:folder/files/:name' }),
+    },
+});
+
+describe('Contracts', () => {
+    let mockAxios: MockAdapter;
+    let api: Api<{ accounts: { url: string } }>;
+
+    beforeEach(() => {
+        mockAxios = new MockAdapter(axios);
+        api = new Api({
+            baseUrl: 'https://api.example.com',
+            enableAuth: false,
+            services: { accounts: { url: 'https://accounts.example.com' } },
+        });
+    });
+
+    afterEach(() => {
+        mockAxios.reset();
+    });
+
+    describe('interpolatePath', () => {
+        test('should replace and encode path parameters', () => {
+            expect(interpolatePath('/folders/:folder/files/:name', { folder: 'a b', name: 'x/y.txt' }))
+                .toBe('/folders/a%20b/files/x%2Fy.txt');
+        });
+
+        test('should throw when a path parameter is missing', () => {
+            expect(() => interpolatePath('/users/:id', {})).toThrow(ApiError);
+        });
+    });
+
+    describe('createClient', () => {
+        test('should call the operation with interpolated params', async () => {
+            mockAxios.onGet('/users/42').reply(200, { id: 42, name: 'Ada' });
+
+            const client = api.createClient(contract);
+            const user = await client.users.getById({ id: 42 });
+
+            expect(user).toEqual({ id: 42, name: 'Ada' });
+        });
+
+        test('should pass query parameters and request options', async () => {
+            mockAxios.onGet('/users?page=2').reply((config) => {
+                expect(config.headers?.['X-Trace']).toBe('abc');
+                return [200, []];
+            });
+
+            const client = api.createClient(contract);
+            const users = await client.users.list({ query: { page: 2 } }, { headers: { 'X-Trace': 'abc' } });
+
+            expect(users).toEqual([]);
+        });
+
+        test('should forward the priority to the scheduler', async () => {
+            const queuedApi = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                services: { accounts: { url: 'https://accounts.example.com' } },
+                scheduler: { maxConcurrent: 1 },
+            });
+            const order: string[] = [];
+            let release: () => void = () => undefined;
+            mockAxios.onGet('/users/1').reply(() => new Promise((resolve) => {
+                release = () => resolve([200, { id: 1, name: 'Ada' }]);
+            }));
+            mockAxios.onGet(/\/users\/\d+/).reply((config) => {
+                expect(config).not.toHaveProperty('priority');
+                order.push(config.url as string);
+                return [200, {}];
+            });
+
+            const client = queuedApi.createClient(contract);
+            const first = client.users.getById({ id: 1 });
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            const low = client.users.getById({ id: 2 }, { priority: 'low' });
+            const high = client.users.getById({ id: 3 }, { priority: 'high' });
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            release();
+            await Promise.all([first, low, high]);
+            expect(order).toEqual(['/users/3', '/users/2']);
+        });
+
+        test('should send the body to the operation service', async () => {
+            mockAxios.onPost('https://accounts.example.com/users', { name: 'Grace' }).reply(201, { id: 1, name: 'Grace' });
+
+            const client = api.createClient(contract);
+            const user = await client.users.create({ body: { name: 'Grace' } });
+
+            expect(user).toEqual({ id: 1, name: 'Grace' });
+        });
+
+        test('should reject instead of throwing when a path parameter is missing', async () => {
+            const client = api.createClient(contract);
+            const results = await Promise.allSettled([client.users.getById({} as { id: number })]);
+
+            expect(results[0]).toMatchObject({
+                status: 'rejected',
+                reason: expect.objectContaining({ message: "Missing path parameter 'id' for '/users/:id'" }),
+            });
+            expect(mockAxios.history.get).toHaveLength(0);
+        });
+
+        test('should encode path parameters in requests', async () => {
+            mockAxios.onGet('/folders/my%20docs/files/report%231.pdf').reply(200, 'content');
+
+            const client = api.createClient(contract);
+
+            await expect(client.files.get({ folder: 'my docs', name: 'report#1.pdf' })).resolves.toBe('content');
+        });
+    });
+});
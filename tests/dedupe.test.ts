@@ -0,0 +1,69 @@
+import { RequestDeduplicator } from '../src/dedupe';
+import { RequestCancelledError } from '../src/types';
+
+describe('RequestDeduplicator', () => {
+    const deferred = <T>() => {
+        let resolve: (value: T) => void = () => undefined;
+        const promise = new Promise<T>((res) => {
+            resolve = res;
+        });
+        return { promise, resolve };
+    };
+
+    test('should share one execution between identical keys', async () => {
+        const deduplicator = new RequestDeduplicator();
+        const response = deferred<string>();
+        const execute = jest.fn(() => response.promise);
+
+        const first = deduplicator.run('GET /me', undefined, execute);
+        const second = deduplicator.run('GET /me', undefined, execute);
+        response.resolve('me');
+
+        await expect(Promise.all([first, second])).resolves.toEqual(['me', 'me']);
+        expect(execute).toHaveBeenCalledTimes(1);
+        expect(deduplicator.size).toBe(0);
+    });
+
+    test('should only reject the caller that aborts', async () => {
+        const deduplicator = new RequestDeduplicator();
+        const response = deferred<string>();
+        let sharedSignal: AbortSignal | undefined;
+        const controller = new AbortController();
+
+        const aborted = deduplicator.run('GET /me', controller.signal, (signal) => {
+            sharedSignal = signal;
+            return response.promise;
+        });
+        const kept = deduplicator.run('GET /me', undefined, () => response.promise);
+
+        controller.abort();
+        response.resolve('me');
+
+        await expect(aborted).rejects.toBeInstanceOf(RequestCancelledError);
+        await expect(kept).resolves.toBe('me');
+        expect(sharedSignal?.aborted).toBe(false);
+    });
+
+    test('should abort the shared request when every caller aborts', async () => {
+        const deduplicator = new RequestDeduplicator();
+        const first = new AbortController();
+        const second = new AbortController();
+        let sharedSignal: AbortSignal | undefined;
+        const execute = (signal: AbortSignal) => {
+            sharedSignal = signal;
+            return new Promise<string>(() => undefined);
+        };
+
+        const results = [
+            deduplicator.run('GET /me', first.signal, execute),
+            deduplicator.run('GET /me', second.signal, execute),
+        ];
+        first.abort();
+        expect(sharedSignal?.aborted).toBe(false);
+        second.abort();
+
+        await expect(Promise.all(results)).rejects.toBeInstanceOf(RequestCancelledError);
+        expect(sharedSignal?.aborted).toBe(true);
+        expect(deduplicator.size).toBe(0);
+    });
+});
@@ -0,0 +1,210 @@
+import axios, { AxiosError } from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { apiKeyAuth } from '../src/auth';
+import { Api } from '../src/core';
+import { parseFieldErrors } from '../src/errors';
+import { REDACTED, Redactor } from '../src/redact';
+import {
+    ApiError,
+    AuthenticationError,
+    ConflictError,
+    NetworkError,
+    NotFoundError,
+    RateLimitError,
+    ServerError,
+    TimeoutError,
+    ValidationError,
+} from '../src/types';
+
+describe('Errors', () => {
+    let mockAxios: MockAdapter;
+    let api: Api;
+    const onRequestError = jest.fn();
+
+    beforeEach(() => {
+        mockAxios = new MockAdapter(axios);
+        api = new Api({
+            baseUrl: 'https://api.example.com',
+            getSession: jest.fn().mockResolvedValue({ accessToken: 'fake-token' }),
+            signOut: jest.fn(),
+            onRequestError,
+            retryPolicy: { maxRetries: 0 },
+            redact: { headers: ['X-Tenant'], fields: ['iban'] },
+        });
+    });
+
+    afterEach(() => {
+        mockAxios.reset();
+        jest.clearAllMocks();
+    });
+
+    describe('parseFieldErrors', () => {
+        test.each([
+            ['an object of messages', { errors: { email: ['is taken'], name: 'is required' } }],
+            ['a list of field errors', { errors: [{ field: 'email', message: 'is taken' }, { path: ['name'], msg: 'is required' }] }],
+            ['Symfony violations', { violations: [{ propertyPath: 'email', message: 'is taken' }, { propertyPath: 'name', message: 'is required' }] }],
+            ['FastAPI details', { detail: [{ loc: ['body', 'email'], msg: 'is taken' }, { loc: ['body', 'name'], msg: 'is required' }] }],
+        ])('should read %s', (_format, body) => {
+            expect(parseFieldErrors(body)).toEqual({ email: ['is taken'], name: ['is required'] });
+        });
+
+        test('should return an empty object for unknown bodies', () => {
+            expect(parseFieldErrors({ message: 'Bad Request' })).toEqual({});
+            expect(parseFieldErrors(null)).toEqual({});
+        });
+    });
+
+    describe('Redactor', () => {
+        const redactor = new Redactor({ headers: ['X-Tenant'], fields: ['iban'] });
+
+        test('should redact default and configured headers', () => {
+            expect(redactor.redactHeaders({ Authorization: 'Bearer secret', 'x-tenant': 'acme', Accept: 'application/json' })).toEqual({
+                Authorization: REDACTED,
+                'x-tenant': REDACTED,
+                Accept: 'application/json',
+            });
+        });
+
+        test('should redact credential headers and query parameters of the auth provider', () => {
+            expect(redactor.redactHeaders({ 'X-Partner-Key': 'secret', Accept: '*/*' }, ['x-partner-key'])).toEqual({
+                'X-Partner-Key': REDACTED,
+                Accept: '*/*',
+            });
+            expect(redactor.redactUrl('/offers?key=secret&token=abc&page=2', ['key'])).toBe(
+                '/offers?key=%5BREDACTED%5D&token=%5BREDACTED%5D&page=2'
+            );
+            expect(redactor.redactUrl('/offers?q=a%20b')).toBe('/offers?q=a%20b');
+        });
+
+        test('should redact nested fields of JSON bodies', () => {
+            const body = JSON.stringify({ user: { email: 'ada@example.com', password: 'p4ss' }, accounts: [{ IBAN: 'FR76' }] });
+
+            expect(redactor.redactBody(body)).toEqual({
+                user: { email: 'ada@example.com', password: REDACTED },
+                accounts: [{ IBAN: REDACTED }],
+            });
+            expect(redactor.redactBody('plain text')).toBe('plain text');
+        });
+    });
+
+    describe('Api error mapping', () => {
+        const requestError = (promise: Promise<unknown>): Promise<ApiError> => promise.then(
+            () => {
+                throw new Error('Expected the request to fail');
+            },
+            (error: unknown) => {
+                expect(error).toBeInstanceOf(ApiError);
+                return error as ApiError;
+            }
+        );
+
+        test.each([
+            [404, NotFoundError],
+            [409, ConflictError],
+            [500, ServerError],
+            [503, ServerError],
+            [403, ApiError],
+        ])('should map status %p', async (status, ErrorClass) => {
+            mockAxios.onGet('/resource').reply(status, { message: 'Failed' });
+
+            const error = await requestError(api.get('/resource'));
+
+            expect(error).toBeInstanceOf(ErrorClass);
+            expect(error.name).toBe(ErrorClass.name);
+            expect(error.status).toBe(status);
+            expect(error.message).toBe('Failed');
+        });
+
+        test('should expose field errors of validation failures', async () => {
+            mockAxios.onPost('/users').reply(422, { message: 'Invalid data', errors: { email: ['is taken'] } });
+
+            const error = await requestError(api.post('/users', { email: 'ada@example.com' }));
+
+            expect(error).toBeInstanceOf(ValidationError);
+            expect((error as ValidationError).fieldErrors).toEqual({ email: ['is taken'] });
+            expect(error.code).toBe('VALIDATION_ERROR');
+        });
+
+        test('should expose the Retry-After delay of rate limits', async () => {
+            mockAxios.onGet('/resource').reply(429, { code: 'SLOW_DOWN' }, { 'retry-after': '30' });
+
+            const error = await requestError(api.get('/resource'));
+
+            expect(error).toBeInstanceOf(RateLimitError);
+            expect((error as RateLimitError).retryAfter).toBe(30000);
+            expect(error.code).toBe('SLOW_DOWN');
+        });
+
+        test('should distinguish network errors and timeouts', async () => {
+            mockAxios.onGet('/offline').networkError().onGet('/slow').timeout();
+
+            await expect(api.get('/offline')).rejects.toBeInstanceOf(NetworkError);
+            await expect(api.get('/slow')).rejects.toBeInstanceOf(TimeoutError);
+        });
+
+        test('should keep a redacted context and the Axios error as cause', async () => {
+            mockAxios.onPost('/payments').reply(500, { message: 'Failed', token: 'leaked' });
+
+            const error = await requestError(api.post(
+                '/payments',
+                { amount: 10, iban: 'FR76', password: 'p4ss' },
+                'private',
+                { headers: { 'X-Tenant': 'acme' } }
+            ));
+
+            expect(error.context).toMatchObject({
+                endpoint: '/payments',
+                method: 'POST',
+                service: 'private',
+                baseURL: 'https://api.example.com',
+                requestData: { amount: 10, iban: REDACTED, password: REDACTED },
+                responseData: { message: 'Failed', token: REDACTED },
+            });
+            expect(error.context?.headers).toMatchObject({ Authorization: REDACTED, 'X-Tenant': REDACTED });
+            expect(JSON.stringify(error.context)).not.toContain('fake-token');
+            expect(error.cause).toBeInstanceOf(AxiosError);
+            expect(onRequestError).toHaveBeenCalledWith(error);
+        });
+
+        test('should keep the token out of a serialised error', async () => {
+            mockAxios.onGet('/crash').reply(500);
+
+            const error = await requestError(api.get('/crash'));
+
+            expect(error.cause).toBeInstanceOf(AxiosError);
+            expect(Object.keys(error)).not.toContain('cause');
+            expect(JSON.stringify(error)).not.toContain('fake-token');
+            expect(JSON.parse(JSON.stringify(error))).toMatchObject({ status: 500, context: { endpoint: '/crash' } });
+        });
+
+        test('should redact credentials added by the auth provider under custom names', async () => {
+            const partnerApi = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                retryPolicy: { maxRetries: 0 },
+                services: {
+                    partner: { url: 'https://partner.example.com', auth: apiKeyAuth({ key: 'PARTNER-SECRET', name: 'X-Partner-Key' }) },
+                    legacy: { url: 'https://legacy.example.com', auth: apiKeyAuth({ key: 'LEGACY-SECRET', name: 'key', in: 'query' }) },
+                },
+            });
+            mockAxios.onGet(/\/offers/).reply(404);
+
+            const headerError = await requestError(partnerApi.get('/offers', undefined, 'partner'));
+            const queryError = await requestError(partnerApi.get('/offers', { page: 2 }, 'legacy'));
+
+            expect(headerError.context?.headers?.['X-Partner-Key']).toBe(REDACTED);
+            expect(queryError.context?.url).toBe('/offers?page=2');
+            expect(JSON.stringify([headerError, queryError])).not.toMatch(/PARTNER-SECRET|LEGACY-SECRET/);
+        });
+
+        test('should attach a redacted context to authentication errors', async () => {
+            mockAxios.onGet('/me').reply(401);
+
+            const error = await requestError(api.get('/me'));
+
+            expect(error).toBeInstanceOf(AuthenticationError);
+            expect(error.context?.headers?.Authorization).toBe(REDACTED);
+            expect(error.cause).toBeInstanceOf(AxiosError);
+        });
+    });
+});
@@ -0,0 +1,145 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { NotFoundError, RequestCancelledError } from '../src/types';
+
+describe('Request lifecycle events', () => {
+    let mockAxios: MockAdapter;
+
+    beforeEach(() => {
+        mockAxios = new MockAdapter(axios);
+    });
+
+    afterEach(() => {
+        mockAxios.reset();
+    });
+
+    const createApi = () => new Api({
+        baseUrl: 'https://api.example.com',
+        enableAuth: false,
+        retryPolicy: { maxRetries: 1, retryDelay: 0, jitter: false },
+    });
+
+    test('should emit request:start and request:end with timings', async () => {
+        const api = createApi();
+        const onStart = jest.fn();
+        const onEnd = jest.fn();
+        api.on('request:start', onStart);
+        api.on('request:end', onEnd);
+        mockAxios.onGet('/users').reply(200, []);
+
+        await api.get('/users', undefined, 'public', { tags: ['list'] });
+
+        const context = { method: 'GET', endpoint: '/users', service: 'public', tags: ['list'] };
+        expect(onStart).toHaveBeenCalledWith({ ...context, requestId: expect.any(String), startTime: expect.any(Number) });
+        expect(onEnd).toHaveBeenCalledWith({
+            ...context,
+            requestId: onStart.mock.calls[0][0].requestId,
+            startTime: onStart.mock.calls[0][0].startTime,
+            duration: expect.any(Number),
+            status: 200,
+        });
+    });
+
+    test('should give each request its own id', async () => {
+        const api = createApi();
+        const onStart = jest.fn();
+        api.on('request:start', onStart);
+        mockAxios.onGet(/\/users/).reply(200, []);
+
+        await api.get('/users/1', undefined, 'public');
+        await api.get('/users/2', undefined, 'public');
+
+        const [first, second] = onStart.mock.calls.map(([event]) => event.requestId);
+        expect(first).not.toBe(second);
+    });
+
+    test('should emit error and request:end for a failed request', async () => {
+        const api = createApi();
+        const onError = jest.fn();
+        const onEnd = jest.fn();
+        api.on('error', onError);
+        api.on('request:end', onEnd);
+        mockAxios.onGet('/missing').reply(404, { message: 'Not found' });
+
+        await expect(api.get('/missing', undefined, 'public')).rejects.toBeInstanceOf(NotFoundError);
+
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+            endpoint: '/missing',
+            error: expect.any(NotFoundError),
+            duration: expect.any(Number),
+        }));
+        expect(onEnd).toHaveBeenCalledWith(expect.objectContaining({ status: 404, error: expect.any(NotFoundError) }));
+    });
+
+    test('should not emit error for a cancelled request', async () => {
+        const api = createApi();
+        const onError = jest.fn();
+        const onEnd = jest.fn();
+        api.on('error', onError);
+        api.on('request:end', onEnd);
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(api.get('/users', undefined, 'public', { signal: controller.signal }))
+            .rejects.toBeInstanceOf(RequestCancelledError);
+
+        expect(onError).not.toHaveBeenCalled();
+        expect(onEnd).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(RequestCancelledError) }));
+    });
+
+    test('should emit retry with the id of the request', async () => {
+        const api = createApi();
+        const onStart = jest.fn();
+        const onRetry = jest.fn();
+        api.on('request:start', onStart);
+        api.on('retry', onRetry);
+        let attempts = 0;
+        mockAxios.onGet('/flaky').reply(() => (++attempts === 1 ? [503] : [200, 'ok']));
+
+        await expect(api.get('/flaky', undefined, 'public')).resolves.toBe('ok');
+
+        expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+            requestId: onStart.mock.calls[0][0].requestId,
+            method: 'GET',
+            url: '/flaky',
+            service: 'public',
+            attempt: 1,
+            delay: 0,
+            status: 503,
+        }));
+    });
+
+    test('should emit auth:refresh and auth:signout for the session', async () => {
+        const api = new Api({
+            baseUrl: 'https://api.example.com',
+            getSession: async () => ({ accessToken: 'expired' }),
+            refreshSession: async () => null,
+            signOut: async () => undefined,
+        });
+        const onRefresh = jest.fn();
+        const onSignOut = jest.fn();
+        api.on('auth:refresh', onRefresh);
+        api.on('auth:signout', onSignOut);
+        mockAxios.onGet('/me').reply(401);
+
+        await expect(api.get('/me')).rejects.toThrow('Unauthorized, user logged out.');
+
+        expect(onRefresh).toHaveBeenCalledWith({ source: 'session', success: false, duration: expect.any(Number) });
+        expect(onSignOut).toHaveBeenCalledWith(expect.objectContaining({ service: 'private', url: '/me' }));
+    });
+
+    test('should emit auth:refresh for a provider refresh', async () => {
+        const api = new Api({
+            baseUrl: 'https://api.example.com',
+            enableAuth: true,
+            auth: { apply: () => undefined, refresh: async () => true },
+        });
+        const onRefresh = jest.fn();
+        api.on('auth:refresh', onRefresh);
+        mockAxios.onGet('/me').replyOnce(401).onGet('/me').reply(200, 'me');
+
+        await expect(api.get('/me')).resolves.toBe('me');
+        expect(onRefresh).toHaveBeenCalledWith({ source: 'private', success: true, duration: expect.any(Number) });
+    });
+});
@@ -0,0 +1,121 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { apiKeyAuth } from '../src/auth';
+import { Api } from '../src/core';
+import { REDACTED } from '../src/redact';
+import { HarDocument } from '../src/types';
+
+describe('HAR export', () => {
+    let mockAxios: MockAdapter;
+
+    beforeEach(() => {
+        mockAxios = new MockAdapter(axios);
+    });
+
+    afterEach(() => {
+        mockAxios.reset();
+    });
+
+    const createApi = (har: ConstructorParameters<typeof Api>[0]['har'] = true) => new Api({
+        baseUrl: 'https://api.example.com',
+        getSession: async () => ({ accessToken: 'secret-token' }),
+        signOut: async () => undefined,
+        retryPolicy: { retryDelay: 0, jitter: false, methods: ['POST'] },
+        har,
+    });
+
+    test('should be disabled by default', () => {
+        const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false });
+        expect(api.exportHar()).toBeNull();
+    });
+
+    test('should capture each attempt as a redacted HAR 1.2 entry', async () => {
+        const api = createApi();
+        let attempts = 0;
+        mockAxios.onPost(/\/login/).reply(() => (++attempts === 1
+            ? [503]
+            : [200, { accessToken: 'abc', name: 'Ada' }, { 'content-type': 'application/json', 'set-cookie': 'sid=1' }]));
+
+        await api.post('/login?token=xyz&lang=fr', { email: 'a@b.c', password: 'p4ss' });
+
+        const har = api.exportHar() as HarDocument;
+        expect(har.log).toMatchObject({ version: '1.2', creator: { name: 'ak-api-http' } });
+        expect(har.log.entries).toHaveLength(2);
+
+        const [failed, succeeded] = har.log.entries;
+        expect(failed).toMatchObject({ _service: 'private', _attempt: 1, response: { status: 503 } });
+        expect(succeeded).toMatchObject({
+            _service: 'private',
+            _requestId: failed._requestId,
+            _attempt: 2,
+            startedDateTime: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+            time: expect.any(Number),
+            timings: { send: 0, wait: succeeded.time, receive: 0 },
+            request: {
+                method: 'POST',
+                url: 'https://api.example.com/login?token=%5BREDACTED%5D&lang=fr',
+                queryString: [{ name: 'token', value: REDACTED }, { name: 'lang', value: 'fr' }],
+                postData: {
+                    mimeType: 'application/json',
+                    text: JSON.stringify({ email: 'a@b.c', password: REDACTED }),
+                },
+            },
+            response: {
+                status: 200,
+                content: { mimeType: 'application/json', text: JSON.stringify({ accessToken: REDACTED, name: 'Ada' }) },
+            },
+        });
+        expect(succeeded.request.headers).toContainEqual({ name: 'Authorization', value: REDACTED });
+        expect(succeeded.response.headers).toContainEqual({ name: 'set-cookie', value: REDACTED });
+    });
+
+    test('should redact the credentials added by the auth provider', async () => {
+        const api = new Api({
+            baseUrl: 'https://api.example.com',
+            auth: apiKeyAuth({ key: 'SUPERSECRET', in: 'query' }),
+            har: { creator: { name: 'my-app', version: '2.4.0' } },
+        });
+        mockAxios.onGet(/\/search/).reply(200, []);
+
+        await api.get('/search', { q: 1 });
+
+        const har = api.exportHar() as HarDocument;
+        expect(JSON.stringify(har)).not.toContain('SUPERSECRET');
+        expect(har.log.creator).toEqual({ name: 'my-app', version: '2.4.0' });
+        expect(har.log.entries[0].request.queryString).toContainEqual({ name: 'api_key', value: REDACTED });
+    });
+
+    test('should record network errors without a response', async () => {
+        const api = createApi();
+        mockAxios.onGet('/offline').networkError();
+
+        await expect(api.get('/offline', undefined, 'public')).rejects.toThrow();
+
+        expect(api.exportHar()?.log.entries).toEqual([
+            expect.objectContaining({
+                _service: 'public',
+                _error: 'Network Error',
+                response: expect.objectContaining({ status: 0, content: { size: 0, mimeType: '' } }),
+            }),
+        ]);
+    });
+
+    test('should keep only the most recent entries', async () => {
+        const api = createApi({ maxEntries: 2, includeBodies: false });
+        mockAxios.onGet(/\/users\/\d+/).reply(200, { id: 1 });
+
+        await api.get('/users/1', undefined, 'public');
+        await api.get('/users/2', undefined, 'public');
+        await api.get('/users/3', undefined, 'public');
+
+        const entries = api.exportHar()?.log.entries ?? [];
+        expect(entries.map((entry) => entry.request.url)).toEqual([
+            'https://api.example.com/users/2',
+            'https://api.example.com/users/3',
+        ]);
+        expect(entries[1].response.content.text).toBeUndefined();
+
+        api.clearHar();
+        expect(api.exportHar()?.log.entries).toEqual([]);
+    });
+});
@@ -0,0 +1,160 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { ApiLogger } from '../src/logger';
+import { REDACTED, Redactor } from '../src/redact';
+import { LogFields, Logger } from '../src/types';
+
+describe('Logger', () => {
+    const createLogger = (): jest.Mocked<Logger> => ({
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+    });
+
+    describe('ApiLogger', () => {
+        test('should skip messages below the configured level', () => {
+            const logger = createLogger();
+            const apiLogger = new ApiLogger(logger, 'warn', new Redactor());
+
+            apiLogger.debug('debug');
+            apiLogger.info('info');
+            apiLogger.warn('warn');
+            apiLogger.error('error');
+
+            expect(logger.debug).not.toHaveBeenCalled();
+            expect(logger.info).not.toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalledWith('warn', undefined);
+            expect(logger.error).toHaveBeenCalledWith('error', undefined);
+        });
+
+        test('should redact headers and configured body keys', () => {
+            const logger = createLogger();
+            const apiLogger = new ApiLogger(logger, 'debug', new Redactor({ fields: ['iban'] }));
+
+            apiLogger.info('request', {
+                service: 'payments',
+                headers: { Authorization: 'Bearer secret', Accept: 'application/json' },
+                data: { iban: 'FR76', nested: { password: 'p4ss' }, amount: 10 },
+            });
+
+            expect(logger.info).toHaveBeenCalledWith('request', {
+                service: 'payments',
+                headers: { Authorization: REDACTED, Accept: 'application/json' },
+                data: { iban: REDACTED, nested: { password: REDACTED }, amount: 10 },
+            });
+        });
+
+        test('should never throw when the logger fails', () => {
+            const logger = createLogger();
+            logger.error.mockImplementation(() => {
+                throw new Error('transport down');
+            });
+
+            expect(() => new ApiLogger(logger, 'debug', new Redactor()).error('boom')).not.toThrow();
+        });
+    });
+
+    describe('Api integration', () => {
+        let mockAxios: MockAdapter;
+        let consoleSpies: jest.SpyInstance[];
+
+        beforeEach(() => {
+            mockAxios = new MockAdapter(axios);
+            consoleSpies = (['log', 'debug', 'info', 'warn', 'error'] as const).map((method) =>
+                jest.spyOn(console, method).mockImplementation(() => undefined)
+            );
+        });
+
+        afterEach(() => {
+            mockAxios.reset();
+            consoleSpies.forEach((spy) => spy.mockRestore());
+        });
+
+        test('should print nothing to the console by default', async () => {
+            const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false, maxRetries: 0 });
+            mockAxios.onGet('/users').reply(200, []);
+            mockAxios.onGet('/broken').reply(500);
+
+            await api.get('/users');
+            await expect(api.get('/broken')).rejects.toThrow();
+
+            consoleSpies.forEach((spy) => expect(spy).not.toHaveBeenCalled());
+        });
+
+        test('should write to the console in debug mode', async () => {
+            const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false, debug: true });
+            mockAxios.onGet('/users').reply(200, []);
+
+            await api.get('/users');
+
+            expect(console.debug).toHaveBeenCalledWith('[Api] GET /users', expect.objectContaining({ method: 'GET' }));
+        });
+
+        test('should pass structured fields to the injected logger', async () => {
+            const logger = createLogger();
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                logger,
+                logLevel: 'debug',
+                retryPolicy: { maxRetries: 1, retryDelay: 0, jitter: false, methods: ['POST'] },
+            });
+            mockAxios.onPost('/login').reply(503);
+
+            await expect(api.post('/login', { email: 'a@b.c', password: 'secret' }, 'public')).rejects.toThrow();
+
+            expect(logger.debug).toHaveBeenCalledWith('POST /login', expect.objectContaining({
+                service: 'public',
+                method: 'POST',
+                url: '/login',
+                data: { email: 'a@b.c', password: REDACTED },
+            }));
+            expect(logger.warn).toHaveBeenCalledWith('Nouvelle tentative dans 0ms', expect.objectContaining({
+                service: 'public',
+                method: 'POST',
+                status: 503,
+                attempt: 1,
+            }));
+            expect(logger.error).toHaveBeenCalledWith('Erreur HTTP', expect.objectContaining({ status: 503 }));
+            expect(logger.debug).toHaveBeenCalledWith('POST /login terminée', expect.objectContaining({
+                status: 503,
+                durationMs: expect.any(Number),
+            }));
+            consoleSpies.forEach((spy) => expect(spy).not.toHaveBeenCalled());
+        });
+
+        test('should never write the token through a JSON logger', async () => {
+            const lines: string[] = [];
+            const write = (message: string, fields?: LogFields) => lines.push(JSON.stringify({ message, ...fields }));
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession: async () => ({ accessToken: 'TOPSECRETTOKEN' }),
+                signOut: async () => undefined,
+                retryPolicy: { maxRetries: 0 },
+                logger: { debug: write, info: write, warn: write, error: write },
+                logLevel: 'debug',
+            });
+            mockAxios.onGet('/crash').reply(500);
+
+            await expect(api.get('/crash')).rejects.toThrow();
+
+            expect(lines.join('\n')).not.toContain('TOPSECRETTOKEN');
+            expect(lines.map((line) => JSON.parse(line))).toContainEqual(expect.objectContaining({
+                message: 'Erreur HTTP',
+                error: expect.objectContaining({ name: 'ServerError', status: 500, context: expect.any(Object) }),
+            }));
+        });
+
+        test('should default to the info level', async () => {
+            const logger = createLogger();
+            const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false, logger });
+            mockAxios.onGet('/users').reply(200, []);
+
+            await api.get('/users');
+
+            expect(logger.debug).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,126 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { normalizeEndpoint, percentile } from '../src/metrics';
+import { MetricsSnapshot } from '../src/types';
+
+describe('Metrics', () => {
+    describe('normalizeEndpoint', () => {
+        test('should replace identifiers and drop the query string', () => {
+            expect(normalizeEndpoint('/users/42/orders?page=2')).toBe('/users/:id/orders');
+            expect(normalizeEndpoint('/files/3f2b8c1e-9a4d-4f6b-8e2a-1c5d7e9f0a3b')).toBe('/files/:id');
+            expect(normalizeEndpoint('/posts/64b7f0c2e4a1d3b5c6f7e8d9')).toBe('/posts/:id');
+            expect(normalizeEndpoint('/users/me')).toBe('/users/me');
+        });
+    });
+
+    describe('percentile', () => {
+        test('should use the nearest rank', () => {
+            const values = Array.from({ length: 100 }, (_, index) => index + 1);
+            expect(percentile(values, 50)).toBe(50);
+            expect(percentile(values, 95)).toBe(95);
+            expect(percentile(values, 99)).toBe(99);
+            expect(percentile([], 50)).toBe(0);
+        });
+    });
+
+    describe('Api integration', () => {
+        let mockAxios: MockAdapter;
+
+        beforeEach(() => {
+            mockAxios = new MockAdapter(axios);
+        });
+
+        afterEach(() => {
+            mockAxios.reset();
+        });
+
+        const createApi = (metrics: ConstructorParameters<typeof Api>[0]['metrics'] = true) => new Api({
+            baseUrl: 'https://api.example.com',
+            enableAuth: false,
+            retryPolicy: { retryDelay: 0, jitter: false },
+            metrics,
+        });
+
+        test('should be disabled by default', () => {
+            const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false });
+            expect(api.getStats()).toBeNull();
+        });
+
+        test('should aggregate requests per service and endpoint template', async () => {
+            const api = createApi();
+            let attempts = 0;
+            mockAxios.onGet(/\/users\/\d+$/).reply(() => (++attempts === 1 ? [503] : [200, {}]));
+            mockAxios.onGet('/missing').reply(404);
+
+            await api.get('/users/1');
+            await api.get('/users/2');
+            await expect(api.get('/missing')).rejects.toThrow();
+
+            const stats = api.getStats() as MetricsSnapshot;
+            expect(stats.endpoints).toEqual([
+                expect.objectContaining({
+                    service: 'private',
+                    method: 'GET',
+                    endpoint: '/users/:id',
+                    count: 2,
+                    errors: 0,
+                    retries: 1,
+                    statuses: { 200: 2 },
+                }),
+                expect.objectContaining({ endpoint: '/missing', count: 1, errors: 1, statuses: { 404: 1 } }),
+            ]);
+            expect(stats.services.private).toMatchObject({ count: 3, errors: 1, retries: 1 });
+            expect(stats.total.errorRate).toBeCloseTo(1 / 3);
+            expect(stats.total.latency).toEqual({
+                min: expect.any(Number),
+                max: expect.any(Number),
+                mean: expect.any(Number),
+                p50: expect.any(Number),
+                p95: expect.any(Number),
+                p99: expect.any(Number),
+            });
+        });
+
+        test('should count cancellations separately', async () => {
+            const api = createApi();
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(api.get('/users', undefined, 'private', { signal: controller.signal })).rejects.toThrow();
+
+            expect(api.getStats()?.total).toMatchObject({ count: 0, cancelled: 1 });
+        });
+
+        test('should reset the statistics', async () => {
+            const api = createApi();
+            mockAxios.onGet('/users').reply(200, []);
+
+            await api.get('/users');
+            api.resetStats();
+
+            expect(api.getStats()).toMatchObject({ endpoints: [], total: { count: 0 } });
+        });
+
+        test('should push snapshots to the exporter', async () => {
+            jest.useFakeTimers();
+            try {
+                const exporter = jest.fn();
+                const api = createApi({ exporter, exportInterval: 1000, resetOnExport: true });
+
+                await api.exportStats();
+                expect(exporter).toHaveBeenCalledWith(expect.objectContaining({ total: expect.objectContaining({ count: 0 }) }));
+
+                jest.advanceTimersByTime(1000);
+                expect(exporter).toHaveBeenCalledTimes(2);
+
+                api.updateConfig({ metrics: false });
+                jest.advanceTimersByTime(1000);
+                expect(exporter).toHaveBeenCalledTimes(2);
+                expect(api.getStats()).toBeNull();
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { MiddlewareFunction } from '../src/types';
+
+describe('Middlewares', () => {
+    let mockAxios: MockAdapter;
+    let api: Api<{ analytics: { url: string } }>;
+
+    beforeEach(() => {
+        mockAxios = new MockAdapter(axios);
+        api = new Api({
+            baseUrl: 'https://api.example.com',
+            getSession: jest.fn().mockResolvedValue({ accessToken: 'fake-token' }),
+            signOut: jest.fn(),
+            services: { analytics: { url: 'https://analytics.example.com' } },
+        });
+        mockAxios.onGet('/users').reply(200, [{ id: 1 }]);
+    });
+
+    afterEach(() => {
+        mockAxios.reset();
+    });
+
+    test('should run middlewares around the request, koa-style', async () => {
+        const calls: string[] = [];
+        const trace = (name: string): MiddlewareFunction => async (context, next) => {
+            calls.push(`${name}:before ${context.method} ${context.url}`);
+            const response = await next();
+            calls.push(`${name}:after ${response.status}`);
+            return response;
+        };
+        api.use(trace('outer'));
+        api.use(trace('inner'));
+
+        await api.get('/users');
+
+        expect(calls).toEqual([
+            'outer:before GET /users',
+            'inner:before GET /users',
+            'inner:after 200',
+            'outer:after 200',
+        ]);
+    });
+
+    test('should respect the order option', async () => {
+        const calls: string[] = [];
+        api.use({ name: 'late', order: 10, handler: (context, next) => { calls.push('late'); return next(); } });
+        api.use({ name: 'early', order: -10, handler: (context, next) => { calls.push('early'); return next(); } });
+        api.use((context, next) => { calls.push('default'); return next(); });
+
+        await api.get('/users');
+
+        expect(calls).toEqual(['early', 'default', 'late']);
+    });
+
+    test('should let middlewares modify headers and the response', async () => {
+        api.use(async (context, next) => {
+            context.headers['X-Tenant'] = 'acme';
+            const response = await next();
+            return { ...response, data: (response.data as { id: number }[]).map((user) => ({ ...user, tenant: 'acme' })) };
+        });
+
+        const users = await api.get('/users');
+
+        expect(users).toEqual([{ id: 1, tenant: 'acme' }]);
+        expect(mockAxios.history.get[0].headers?.['X-Tenant']).toBe('acme');
+        expect(mockAxios.history.get[0].headers?.Authorization).toBe('Bearer fake-token');
+    });
+
+    test('should short-circuit the request with a response', async () => {
+        const next = jest.fn();
+        api.use({ name: 'flags', handler: () => ({ data: { beta: true }, status: 200, headers: {} }) });
+        api.use(next);
+
+        await expect(api.get('/features')).resolves.toEqual({ beta: true });
+        expect(next).not.toHaveBeenCalled();
+        expect(mockAxios.history.get).toHaveLength(0);
+    });
+
+    test('should only run scoped middlewares for their services', async () => {
+        const handler = jest.fn((context, next) => next());
+        mockAxios.onGet('/events').reply(200, []);
+        api.use({ services: ['analytics'], handler });
+
+        await api.get('/users');
+        expect(handler).not.toHaveBeenCalled();
+
+        await api.get('/events', undefined, 'analytics');
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ service: 'analytics' }), expect.any(Function));
+    });
+
+    test('should remove middlewares at runtime', async () => {
+        const first = jest.fn((context, next) => next());
+        const second = jest.fn((context, next) => next());
+        const remove = api.use(first);
+        api.use({ name: 'second', handler: second });
+
+        remove();
+        expect(api.removeMiddleware('second')).toBe(true);
+        expect(api.removeMiddleware('second')).toBe(false);
+        await api.get('/users');
+
+        expect(first).not.toHaveBeenCalled();
+        expect(second).not.toHaveBeenCalled();
+    });
+
+    test('should expose request errors to middlewares', async () => {
+        const seen = jest.fn();
+        mockAxios.onGet('/missing').reply(404);
+        api.use(async (context, next) => {
+            try {
+                return await next();
+            } catch (error) {
+                seen(error);
+                throw error;
+            }
+        });
+
+        await expect(api.get('/missing')).rejects.toMatchObject({ status: 404 });
+        expect(seen).toHaveBeenCalledWith(expect.objectContaining({ status: 404 }));
+    });
+
+    test('should reject when next() is called twice', async () => {
+        api.use(async (context, next) => {
+            await next();
+            return next();
+        });
+
+        await expect(api.get('/users')).rejects.toThrow('next() called multiple times');
+    });
+});
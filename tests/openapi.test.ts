@@ -0,0 +1,103 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { generateClient, loadOpenApiDocument, OpenApiDocument } from '../src/openapi';
+import { runCli } from '../src/cli';
+
+const fixture = join(__dirname, 'fixtures', 'petstore.yaml');
+
+describe('OpenAPI generator', () => {
+    let document: OpenApiDocument;
+
+    beforeAll(async () => {
+        document = await loadOpenApiDocument(fixture);
+    });
+
+    test('should emit types for component schemas', () => {
+        const code = generateClient(document);
+
+        expect(code).toContain('export interface NewPet {\n  name: string;\n  tag?: string | null;\n}');
+        expect(code).toContain('export type Pet = NewPet & {\n  id: number;\n  \'photo-urls\'?: string[];\n};');
+        expect(code).toContain('export interface ListPetsQuery {\n  limit?: number;\n  status?: \'available\' | \'sold\';\n}');
+        expect(code).toContain('export type GetInventoryResponse = Record<string, number>;');
+        expect(code).toContain('export type DeletePetResponse = void;');
+    });
+
+    test('should map servers to services', () => {
+        const code = generateClient(document);
+
+        expect(code).toContain('export const services = {\n  pets: { url: \'https://pets.example.com/v1\' },\n  store: { url: \'https://store.example.com\' },\n};');
+        expect(code).toContain('service: \'store\',');
+    });
+
+    test('should prefix endpoints with the path of a relative server URL', () => {
+        const code = generateClient({
+            ...document,
+            servers: [{ url: '/api/v3/' }],
+            paths: { '/pets/{petId}': document.paths?.['/pets/{petId}'] ?? {} },
+        });
+
+        expect(code).toContain('export const services = {\n};');
+        expect(code).toContain('      endpoint: `/api/v3/pets/${encodeURIComponent(String(args.petId))}`,');
+        expect(code).toContain('      service: \'private\',');
+    });
+
+    test('should map tags to services when requested', () => {
+        const code = generateClient(document, { serviceFrom: 'tag', serviceNames: { pets: 'animals' } });
+
+        expect(code).toContain('animals: { url: \'https://pets.example.com/v1\' },');
+        expect(code).toContain('store: { url: \'https://store.example.com\' },');
+    });
+
+    test('should emit operation wrappers calling Api.request', () => {
+        const code = generateClient(document, { importFrom: '../src' });
+
+        expect(code).toContain('import type { Api, RequestConfig } from \'../src\';');
+        expect(code).toContain([
+            '    showPetById: (',
+            '      args: { petId: string },',
+            '      options: OperationOptions<ShowPetByIdResponse> = {}',
+            '    ) => api.request<ShowPetByIdResponse>({',
+            '      ...options,',
+            '      method: \'GET\',',
+            '      endpoint: `/pets/${encodeURIComponent(String(args.petId))}`,',
+            '      service: \'pets\',',
+            '    }),',
+        ].join('\n'));
+        expect(code).toContain('      args: { body: CreatePetBody },');
+        expect(code).toContain('      args: { query?: ListPetsQuery } = {},');
+    });
+
+    test('should reject documents that are not OpenAPI 3', () => {
+        expect(() => generateClient({ openapi: '2.0' } as OpenApiDocument)).toThrow('Unsupported OpenAPI version');
+    });
+
+    test('should load JSON documents', async () => {
+        const file = join(mkdtempSync(join(tmpdir(), 'openapi-')), 'spec.json');
+        writeFileSync(file, JSON.stringify(document));
+
+        await expect(loadOpenApiDocument(file)).resolves.toEqual(document);
+    });
+
+    describe('CLI', () => {
+        test('should write the generated client to a file', async () => {
+            const output = join(mkdtempSync(join(tmpdir(), 'openapi-')), 'client.ts');
+            const stderr = jest.fn();
+
+            const code = await runCli(['generate', fixture, '-o', output, '--service', 'https://store.example.com=inventory'], {
+                stdout: jest.fn(),
+                stderr,
+            });
+
+            expect(code).toBe(0);
+            expect(readFileSync(output, 'utf8')).toContain('inventory: { url: \'https://store.example.com\' },');
+        });
+
+        test('should print usage and fail without an input file', async () => {
+            const stderr = jest.fn();
+
+            await expect(runCli(['generate'], { stdout: jest.fn(), stderr })).resolves.toBe(1);
+            expect(stderr).toHaveBeenCalledWith(expect.stringContaining('Usage: ak-api-http generate'));
+        });
+    });
+});
@@ -0,0 +1,174 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { cursorPagination, linkHeaderPagination, pagePagination, parseLinkHeader } from '../src/pagination';
+
+describe('Pagination', () => {
+    let mockAxios: MockAdapter;
+    let api: Api;
+
+    const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+        const values: T[] = [];
+        for await (const value of iterable) {
+            values.push(value);
+        }
+        return values;
+    };
+
+    beforeEach(() => {
+        mockAxios = new MockAdapter(axios);
+        api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false });
+    });
+
+    afterEach(() => {
+        mockAxios.reset();
+    });
+
+    describe('parseLinkHeader', () => {
+        test('should read every relation of the header', () => {
+            const links = parseLinkHeader(
+                '<https://api.example.com/users?page=2>; rel="next", <https://api.example.com/users?page=5>; rel="last"'
+            );
+
+            expect(links).toEqual({
+                next: 'https://api.example.com/users?page=2',
+                last: 'https://api.example.com/users?page=5',
+            });
+        });
+
+        test('should return an empty object without header', () => {
+            expect(parseLinkHeader(undefined)).toEqual({});
+        });
+    });
+
+    describe('page strategy', () => {
+        test('should request pages until an incomplete page is returned', async () => {
+            mockAxios
+                .onGet('/users?page=1&size=2&status=active').reply(200, [1, 2])
+                .onGet('/users?page=2&size=2&status=active').reply(200, [3, 4])
+                .onGet('/users?page=3&size=2&status=active').reply(200, [5]);
+
+            const users = await collect(api.paginate<number>('/users', {
+                searchParams: { status: 'active' },
+                service: 'public',
+                strategy: pagePagination({ size: 2 }),
+            }));
+
+            expect(users).toEqual([1, 2, 3, 4, 5]);
+            expect(mockAxios.history.get).toHaveLength(3);
+        });
+
+        test('should stop on an empty page and read enveloped items', async () => {
+            mockAxios
+                .onGet('/users?page=1').reply(200, { items: ['ada'] })
+                .onGet('/users?page=2').reply(200, { items: [] });
+
+            await expect(collect(api.paginate('/users', { service: 'public' }))).resolves.toEqual(['ada']);
+        });
+
+        test('should stop at the total number of pages', async () => {
+            mockAxios
+                .onGet('/users?page=1').reply(200, { results: ['ada'], pages: 2 })
+                .onGet('/users?page=2').reply(200, { results: ['grace'], pages: 2 });
+
+            const users = await collect(api.paginate('/users', {
+                service: 'public',
+                strategy: pagePagination<string, { pages: number }>({ totalPages: (data) => data.pages }),
+            }));
+
+            expect(users).toEqual(['ada', 'grace']);
+            expect(mockAxios.history.get).toHaveLength(2);
+        });
+    });
+
+    describe('cursor strategy', () => {
+        test('should follow the cursor returned in the body', async () => {
+            mockAxios
+                .onGet('/events').reply(200, { data: ['a', 'b'], next: 'c2' })
+                .onGet('/events?cursor=c2').reply(200, { data: ['c'], next: null });
+
+            const events = await collect(api.paginate('/events', {
+                service: 'public',
+                strategy: cursorPagination<string, { next: string | null }>({ nextCursor: (data) => data.next }),
+            }));
+
+            expect(events).toEqual(['a', 'b', 'c']);
+        });
+
+        test('should stop when the same cursor is returned twice', async () => {
+            mockAxios
+                .onGet('/events').reply(200, { data: ['a'], next: 'c1' })
+                .onGet('/events?cursor=c1').reply(200, { data: ['b'], next: 'c1' });
+
+            const events = await collect(api.paginate('/events', {
+                service: 'public',
+                strategy: cursorPagination<string, { next: string }>({ nextCursor: (data) => data.next }),
+            }));
+
+            expect(events).toEqual(['a', 'b']);
+        });
+    });
+
+    describe('link header strategy', () => {
+        test('should follow the next link', async () => {
+            mockAxios
+                .onGet('/repos?per_page=2').reply(200, ['a', 'b'], {
+                    link: '<https://api.example.com/repos?per_page=2&page=2>; rel="next"',
+                })
+                .onGet('https://api.example.com/repos?per_page=2&page=2').reply(200, ['c']);
+
+            const pages = await collect(api.paginatePages<string>('/repos', {
+                searchParams: { per_page: 2 },
+                service: 'public',
+                strategy: linkHeaderPagination(),
+            }));
+
+            expect(pages.map((page) => page.items)).toEqual([['a', 'b'], ['c']]);
+            expect(pages.map((page) => page.index)).toEqual([0, 1]);
+            expect(pages[0].headers.link).toContain('rel="next"');
+        });
+
+        test('should read the link header of cached pages', async () => {
+            mockAxios
+                .onGet('/repos').replyOnce(200, ['a'], { link: '</repos?page=2>; rel="next"' })
+                .onGet('/repos?page=2').reply(200, ['b']);
+
+            const options = { service: 'public' as const, strategy: linkHeaderPagination(), cache: true };
+            await collect(api.paginate('/repos', options));
+
+            await expect(collect(api.paginate('/repos', options))).resolves.toEqual(['a', 'b']);
+            expect(mockAxios.history.get).toHaveLength(2);
+        });
+    });
+
+    describe('limits', () => {
+        beforeEach(() => {
+            mockAxios.onGet(/\/numbers/).reply((config) => {
+                const page = Number(new URL(config.url ?? '', 'https://api.example.com').searchParams.get('page'));
+                return [200, [page * 10 + 1, page * 10 + 2, page * 10 + 3]];
+            });
+        });
+
+        test('should stop after maxPages', async () => {
+            const pages = await collect(api.paginatePages('/numbers', { service: 'public', maxPages: 2 }));
+
+            expect(pages).toHaveLength(2);
+            expect(mockAxios.history.get).toHaveLength(2);
+        });
+
+        test('should stop after maxItems without fetching more pages', async () => {
+            const numbers = await collect(api.paginate('/numbers', { service: 'public', maxItems: 4 }));
+
+            expect(numbers).toEqual([11, 12, 13, 21]);
+            expect(mockAxios.history.get).toHaveLength(2);
+        });
+
+        test('should not fetch more pages once the consumer stops', async () => {
+            for await (const value of api.paginate('/numbers', { service: 'public' })) {
+                if (value === 12) break;
+            }
+
+            expect(mockAxios.history.get).toHaveLength(1);
+        });
+    });
+});
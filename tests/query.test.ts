@@ -0,0 +1,110 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { createQuerySerializer, serializeQuery } from '../src/query';
+import { SearchParams } from '../src/types';
+
+describe('Query serialization', () => {
+    const decode = (query: string) => decodeURIComponent(query);
+
+    describe('serializeQuery', () => {
+        test('should keep the historical defaults', () => {
+            expect(decode(serializeQuery({ tags: ['a', 'b'], q: '', page: null, active: false, limit: 10, skip: undefined })))
+                .toBe('tags=a,b&active=false&limit=10');
+        });
+
+        test('should serialize dates as ISO strings', () => {
+            expect(decode(serializeQuery({ from: new Date(Date.UTC(2024, 0, 15, 8, 30)) })))
+                .toBe('from=2024-01-15T08:30:00.000Z');
+        });
+
+        test('should serialize nested objects with brackets', () => {
+            expect(decode(serializeQuery({ filter: { status: 'open', owner: { id: 3 } } })))
+                .toBe('filter[status]=open&filter[owner][id]=3');
+        });
+    });
+
+    describe('createQuerySerializer', () => {
+        test.each([
+            ['repeat', 'ids=1&ids=2'],
+            ['brackets', 'ids[]=1&ids[]=2'],
+            ['indices', 'ids[0]=1&ids[1]=2'],
+            ['comma', 'ids=1,2'],
+        ] as const)('should support the %s array format', (arrayFormat, expected) => {
+            expect(decode(createQuerySerializer({ arrayFormat })({ ids: [1, 2] }))).toBe(expected);
+        });
+
+        test('should support dot notation for nested objects', () => {
+            const serialize = createQuerySerializer({ objectFormat: 'dots' });
+            expect(decode(serialize({ filter: { owner: { id: 3 } } }))).toBe('filter.owner.id=3');
+        });
+
+        test('should fall back to indices for arrays of objects', () => {
+            const serialize = createQuerySerializer({ arrayFormat: 'repeat' });
+            expect(decode(serialize({ sort: [{ field: 'name' }, { field: 'date' }] })))
+                .toBe('sort[0][field]=name&sort[1][field]=date');
+        });
+
+        test('should keep empty values when asked to', () => {
+            const serialize = createQuerySerializer({ skipEmptyString: false, skipNull: false });
+            expect(serialize({ name: '', parent: null, missing: undefined })).toBe('name=&parent=');
+        });
+
+        test('should drop false when asked to', () => {
+            expect(createQuerySerializer({ skipFalse: true })({ archived: false, active: true })).toBe('active=true');
+        });
+
+        test('should support timestamp and custom date formats', () => {
+            const date = new Date(Date.UTC(2024, 0, 15));
+            expect(createQuerySerializer({ dateFormat: 'timestamp' })({ at: date })).toBe(`at=${date.getTime()}`);
+            expect(createQuerySerializer({ dateFormat: (value) => value.toISOString().slice(0, 10) })({ at: date }))
+                .toBe('at=2024-01-15');
+        });
+
+        test('should drop empty arrays', () => {
+            expect(createQuerySerializer({ arrayFormat: 'repeat' })({ ids: [], page: 1 })).toBe('page=1');
+        });
+    });
+
+    describe('Api integration', () => {
+        let mockAxios: MockAdapter;
+
+        beforeEach(() => {
+            mockAxios = new MockAdapter(axios);
+        });
+
+        afterEach(() => {
+            mockAxios.reset();
+        });
+
+        test('should use the global serializer', async () => {
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                querySerializer: { arrayFormat: 'repeat', skipEmptyString: false },
+            });
+            mockAxios.onGet('/items?tag=a&tag=b&q=').reply(200, []);
+
+            await expect(api.request({ endpoint: '/items', method: 'GET', searchParams: { tag: ['a', 'b'], q: '' } }))
+                .resolves.toEqual([]);
+        });
+
+        test('should let a service override the global serializer', async () => {
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                querySerializer: { arrayFormat: 'repeat' },
+                services: {
+                    search: { url: 'https://search.example.com', querySerializer: (params: SearchParams) => `q=${params.q}` },
+                },
+            });
+            mockAxios.onGet('/items?tag=a&tag=b').reply(200, 'global');
+            mockAxios.onGet('/find?q=test').reply(200, 'service');
+
+            await expect(api.request({ endpoint: '/items', method: 'GET', searchParams: { tag: ['a', 'b'] } }))
+                .resolves.toBe('global');
+            await expect(api.request({ endpoint: '/find', method: 'GET', service: 'search', searchParams: { q: 'test', page: 2 } }))
+                .resolves.toBe('service');
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import {
+    DEFAULT_RETRY_POLICY,
+    getRetryDelay,
+    parseRetryAfter,
+    resolveRetryPolicy,
+    shouldRetry,
+} from '../src/retry';
+
+const createError = (
+    method: string,
+    status?: number,
+    headers: Record<string, string> = {},
+    code?: string
+): AxiosError => {
+    const config = { method, headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+    const response = status
+        ? { status, statusText: '', data: null, headers, config }
+        : undefined;
+    return new AxiosError('Request failed', code, config, null, response);
+};
+
+describe('Retry policy', () => {
+    test('should merge policies by priority and ignore undefined values', () => {
+        const policy = resolveRetryPolicy(
+            { maxRetries: 5, retryDelay: 200 },
+            { backoff: 'exponential' },
+            { maxRetries: undefined, retryDelay: 50 }
+        );
+
+        expect(policy.maxRetries).toBe(5);
+        expect(policy.retryDelay).toBe(50);
+        expect(policy.backoff).toBe('exponential');
+        expect(policy.methods).toEqual(DEFAULT_RETRY_POLICY.methods);
+    });
+
+    test('should only retry idempotent methods by default', () => {
+        const policy = resolveRetryPolicy();
+
+        expect(shouldRetry(createError('get', 503), policy, 1)).toBe(true);
+        expect(shouldRetry(createError('post', 503), policy, 1)).toBe(false);
+        expect(shouldRetry(createError('post', 503), resolveRetryPolicy({ methods: ['POST'] }), 1)).toBe(true);
+    });
+
+    test('should retry configured status codes until maxRetries', () => {
+        const policy = resolveRetryPolicy({ maxRetries: 2 });
+
+        expect(shouldRetry(createError('get', 429), policy, 1)).toBe(true);
+        expect(shouldRetry(createError('get', 408), policy, 2)).toBe(true);
+        expect(shouldRetry(createError('get', 408), policy, 3)).toBe(false);
+        expect(shouldRetry(createError('get', 404), policy, 1)).toBe(false);
+    });
+
+    test('should retry network and timeout errors only when enabled', () => {
+        const networkError = createError('get', undefined, {}, 'ERR_NETWORK');
+        const timeoutError = createError('get', undefined, {}, 'ECONNABORTED');
+
+        expect(shouldRetry(networkError, resolveRetryPolicy(), 1)).toBe(false);
+        expect(shouldRetry(timeoutError, resolveRetryPolicy(), 1)).toBe(false);
+        expect(shouldRetry(networkError, resolveRetryPolicy({ retryOnNetworkError: true }), 1)).toBe(true);
+        expect(shouldRetry(timeoutError, resolveRetryPolicy({ retryOnTimeout: true }), 1)).toBe(true);
+    });
+
+    test('should compute backoff delays', () => {
+        const error = createError('get', 503);
+
+        expect(getRetryDelay(error, resolveRetryPolicy({ retryDelay: 100 }), 3)).toBe(100);
+        expect(getRetryDelay(error, resolveRetryPolicy({ retryDelay: 100, backoff: 'linear' }), 3)).toBe(300);
+        expect(getRetryDelay(error, resolveRetryPolicy({ retryDelay: 100, backoff: 'exponential' }), 3)).toBe(400);
+        expect(getRetryDelay(error, resolveRetryPolicy({
+            retryDelay: 100,
+            backoff: 'exponential',
+            maxDelay: 250,
+        }), 3)).toBe(250);
+    });
+
+    test('should apply jitter within the computed delay', () => {
+        const error = createError('get', 503);
+        const full = getRetryDelay(error, resolveRetryPolicy({ retryDelay: 100, jitter: 'full' }), 1);
+        const equal = getRetryDelay(error, resolveRetryPolicy({ retryDelay: 100, jitter: 'equal' }), 1);
+
+        expect(full).toBeGreaterThanOrEqual(0);
+        expect(full).toBeLessThanOrEqual(100);
+        expect(equal).toBeGreaterThanOrEqual(50);
+        expect(equal).toBeLessThanOrEqual(100);
+    });
+
+    test('should respect the Retry-After header', () => {
+        const error = createError('get', 429, { 'retry-after': '2' });
+
+        expect(getRetryDelay(error, resolveRetryPolicy({ retryDelay: 100 }), 1)).toBe(2000);
+        expect(getRetryDelay(error, resolveRetryPolicy({ retryDelay: 100, respectRetryAfter: false }), 1)).toBe(100);
+        // Attente demandée supérieure à maxDelay : on abandonne
+        expect(shouldRetry(error, resolveRetryPolicy({ maxDelay: 1000 }), 1)).toBe(false);
+    });
+
+    test('should parse Retry-After as seconds or HTTP date', () => {
+        const now = Date.parse('2025-01-01T00:00:00Z');
+
+        expect(parseRetryAfter('3', now)).toBe(3000);
+        expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+        expect(parseRetryAfter('not-a-date', now)).toBeNull();
+        expect(parseRetryAfter(undefined, now)).toBeNull();
+    });
+});
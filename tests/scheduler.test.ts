@@ -0,0 +1,200 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { RequestScheduler, TokenBucket } from '../src/scheduler';
+import { RequestCancelledError } from '../src/types';
+
+describe('Request scheduler', () => {
+    const deferred = () => {
+        let resolve!: (value: string) => void;
+        const promise = new Promise<string>((res) => {
+            resolve = res;
+        });
+        return { promise, resolve };
+    };
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    describe('TokenBucket', () => {
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        test('should refill tokens over the interval', () => {
+            jest.useFakeTimers();
+            const bucket = new TokenBucket({ limit: 2, interval: 1000 });
+
+            bucket.take();
+            bucket.take();
+            expect(bucket.getWaitTime()).toBe(500);
+
+            jest.advanceTimersByTime(500);
+            expect(bucket.getWaitTime()).toBe(0);
+        });
+    });
+
+    describe('RequestScheduler', () => {
+        test('should limit concurrent requests', async () => {
+            const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+            const first = deferred();
+            const second = jest.fn(() => Promise.resolve('second'));
+
+            const firstResult = scheduler.schedule({ service: 'private' }, () => first.promise);
+            const secondResult = scheduler.schedule({ service: 'private' }, second);
+
+            expect(second).not.toHaveBeenCalled();
+            expect(scheduler.getStats()).toEqual({
+                active: 1,
+                queued: 1,
+                services: { private: { active: 1, queued: 1 } },
+            });
+
+            first.resolve('first');
+            await expect(firstResult).resolves.toBe('first');
+            await expect(secondResult).resolves.toBe('second');
+            expect(scheduler.getStats().active).toBe(0);
+        });
+
+        test('should start higher priorities first', async () => {
+            const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+            const blocker = deferred();
+            const order: string[] = [];
+            const track = (name: string) => () => {
+                order.push(name);
+                return Promise.resolve(name);
+            };
+
+            const results = [
+                scheduler.schedule({ service: 'private' }, () => blocker.promise),
+                scheduler.schedule({ service: 'private', priority: 'low' }, track('sync')),
+                scheduler.schedule({ service: 'private' }, track('normal')),
+                scheduler.schedule({ service: 'private', priority: 'high' }, track('click')),
+            ];
+
+            blocker.resolve('blocker');
+            await Promise.all(results);
+            expect(order).toEqual(['click', 'normal', 'sync']);
+        });
+
+        test('should apply per-service limits without blocking other services', async () => {
+            const scheduler = new RequestScheduler({}, (service) =>
+                service === 'analytics' ? { maxConcurrent: 1 } : undefined
+            );
+            const blocker = deferred();
+            const other = jest.fn(() => Promise.resolve('ok'));
+
+            scheduler.schedule({ service: 'analytics' }, () => blocker.promise);
+            scheduler.schedule({ service: 'analytics' }, () => Promise.resolve('queued'));
+            await scheduler.schedule({ service: 'private' }, other);
+
+            expect(other).toHaveBeenCalled();
+            expect(scheduler.getStats().services.analytics).toEqual({ active: 1, queued: 1 });
+            blocker.resolve('done');
+        });
+
+        test('should delay requests beyond the rate limit', async () => {
+            jest.useFakeTimers();
+            try {
+                const scheduler = new RequestScheduler({ rateLimit: { limit: 1, interval: 1000 } });
+                const second = jest.fn(() => Promise.resolve('second'));
+
+                await scheduler.schedule({ service: 'private' }, () => Promise.resolve('first'));
+                const result = scheduler.schedule({ service: 'private' }, second);
+
+                expect(second).not.toHaveBeenCalled();
+                jest.advanceTimersByTime(1000);
+                await expect(result).resolves.toBe('second');
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        test('should reject queued requests when their signal aborts', async () => {
+            const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+            const blocker = deferred();
+            const controller = new AbortController();
+            const queued = jest.fn(() => Promise.resolve('queued'));
+
+            scheduler.schedule({ service: 'private' }, () => blocker.promise);
+            const result = scheduler.schedule({ service: 'private', signal: controller.signal }, queued);
+            controller.abort();
+
+            await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+            expect(scheduler.getStats().queued).toBe(0);
+
+            blocker.resolve('done');
+            await flush();
+            expect(queued).not.toHaveBeenCalled();
+        });
+
+        test('should clear queued requests only', async () => {
+            const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+            const blocker = deferred();
+
+            const active = scheduler.schedule({ service: 'private' }, () => blocker.promise);
+            const queued = scheduler.schedule({ service: 'private' }, () => Promise.resolve('queued'));
+
+            expect(scheduler.clear()).toBe(1);
+            await expect(queued).rejects.toBeInstanceOf(RequestCancelledError);
+
+            blocker.resolve('done');
+            await expect(active).resolves.toBe('done');
+        });
+    });
+
+    describe('Api integration', () => {
+        let mockAxios: MockAdapter;
+
+        beforeEach(() => {
+            mockAxios = new MockAdapter(axios);
+        });
+
+        afterEach(() => {
+            mockAxios.reset();
+        });
+
+        test('should queue requests above the concurrency limit and honour priorities', async () => {
+            const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false, scheduler: { maxConcurrent: 1 } });
+            const blocker = deferred();
+            const order: string[] = [];
+
+            mockAxios.onGet('/slow').reply(() => blocker.promise.then(() => [200, 'slow']));
+            mockAxios.onGet(/\/(sync|click)/).reply((config) => {
+                order.push(config.url as string);
+                return [200, config.url];
+            });
+
+            const slow = api.get('/slow');
+            await flush();
+            const sync = api.get('/sync', undefined, 'private', { priority: 'low' });
+            const click = api.get('/click', undefined, 'private', { priority: 'high' });
+            await flush();
+
+            expect(api.getQueueStats()).toMatchObject({ active: 1, queued: 2 });
+
+            blocker.resolve('go');
+            await Promise.all([slow, sync, click]);
+            expect(order).toEqual(['/click', '/sync']);
+        });
+
+        test('should cancel queued requests of a service', async () => {
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                services: { analytics: { url: 'https://analytics.example.com', scheduler: { maxConcurrent: 1 } } },
+            });
+            const blocker = deferred();
+            mockAxios.onGet('/events').reply(() => blocker.promise.then(() => [200, 'events']));
+
+            const active = api.get('/events', undefined, 'analytics', { dedupe: false });
+            const queued = api.get('/events', undefined, 'analytics', { dedupe: false });
+            await flush();
+
+            expect(api.cancelQueued('analytics')).toBe(1);
+            await expect(queued).rejects.toBeInstanceOf(RequestCancelledError);
+
+            blocker.resolve('go');
+            await expect(active).resolves.toBe('events');
+        });
+    });
+});
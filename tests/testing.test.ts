@@ -0,0 +1,198 @@
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AxiosAdapter, AxiosError } from 'axios';
+import { Api } from '../src/core';
+import { ApiMock, MockFixture } from '../src/testing';
+import { NetworkError, NotFoundError, RequestCancelledError, TimeoutError } from '../src/types';
+import { REDACTED } from '../src/redact';
+
+describe('ApiMock', () => {
+    const createApi = (mock: ApiMock) => new Api({
+        baseUrl: 'https://api.example.com',
+        getSession: async () => ({ accessToken: 'token' }),
+        refreshSession: async () => ({ accessToken: 'fresh' }),
+        signOut: async () => undefined,
+        retryPolicy: { maxRetries: 2, retryDelay: 0, jitter: false },
+        adapter: mock.adapter,
+    });
+
+    test('should route requests by method, pattern and service', async () => {
+        const mock = new ApiMock();
+        const api = createApi(mock);
+        mock.onGet('/users/:id', { service: 'public' }).reply(({ params }) => ({ status: 200, data: { id: params.id, scope: 'public' } }));
+        mock.onGet('/users/:id').reply(200, { scope: 'any' });
+
+        await expect(api.get('/users/42', undefined, 'public')).resolves.toEqual({ id: '42', scope: 'public' });
+        await expect(api.get('/users/42')).resolves.toEqual({ scope: 'any' });
+    });
+
+    test('should go through the auth, retry and error pipeline', async () => {
+        const mock = new ApiMock();
+        const api = createApi(mock);
+        mock.onGet('/me').replyOnce(401).replyOnce(503).reply(200, 'me');
+        mock.onGet('/missing').reply(404, { message: 'Not found' });
+
+        await expect(api.get('/me')).resolves.toBe('me');
+        await expect(api.get('/missing')).rejects.toBeInstanceOf(NotFoundError);
+
+        const calls = mock.getCalls('GET', '/me');
+        expect(calls.map((call) => call.headers.Authorization)).toEqual([
+            'Bearer token',
+            'Bearer fresh',
+            'Bearer fresh',
+        ]);
+        mock.assertCalled('GET', '/me', { times: 3, service: 'private' });
+        mock.assertCalled('GET', '/missing', { times: 1 });
+    });
+
+    test('should simulate network errors and timeouts', async () => {
+        const mock = new ApiMock();
+        const api = createApi(mock);
+        mock.onGet('/offline').networkError();
+        mock.onGet('/slow').timeout();
+        mock.onGet('/late').delay(50).reply(200);
+        api.updateConfig({ timeout: 20, retryPolicy: { maxRetries: 2, retryDelay: 0, jitter: false, retryOnNetworkError: true } });
+
+        await expect(api.get('/offline')).rejects.toBeInstanceOf(NetworkError);
+        await expect(api.get('/slow')).rejects.toBeInstanceOf(TimeoutError);
+        await expect(api.get('/late')).rejects.toBeInstanceOf(TimeoutError);
+        mock.assertCalled('GET', '/offline', { times: 3 });
+    });
+
+    test('should honour cancellation during simulated latency', async () => {
+        const mock = new ApiMock({ delay: 1000 });
+        const api = createApi(mock);
+        mock.onGet('/users').reply(200, []);
+        const controller = new AbortController();
+
+        const request = api.get('/users', undefined, 'private', { signal: controller.signal });
+        controller.abort();
+
+        await expect(request).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+
+    test('should expose query and body of recorded calls', async () => {
+        const mock = new ApiMock();
+        const api = createApi(mock);
+        mock.onPost('/orders').reply(201, { id: 1 });
+
+        await api.post('/orders?draft=true', { items: [1, 2] });
+
+        expect(mock.getCalls('POST', '/orders')[0]).toMatchObject({
+            url: '/orders?draft=true',
+            path: '/orders',
+            service: 'private',
+            query: { draft: 'true' },
+            body: { items: [1, 2] },
+        });
+    });
+
+    test('should report unhandled requests and failed assertions', async () => {
+        const mock = new ApiMock();
+        const api = createApi(mock);
+
+        await expect(api.get('/unknown')).rejects.toThrow('No mock handler for GET /unknown (service private)');
+        expect(() => mock.assertCalled('GET', '/users/:id')).toThrow(
+            /Expected GET \/users\/:id to be called at least once, but it was called 0 time\(s\)\.\nCalls:\n {2}GET \/unknown/
+        );
+        mock.assertNotCalled('DELETE', '*');
+    });
+
+    test('should attach to and detach from an existing instance', async () => {
+        const mock = new ApiMock();
+        const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false });
+        mock.attach(api).onAny('*').reply(204);
+
+        await api.delete('/users/1');
+        mock.assertCalled('DELETE', '/users/:id');
+        mock.detach(api);
+        mock.reset();
+        expect(mock.getCalls()).toEqual([]);
+    });
+
+    describe('fixtures', () => {
+        const realAdapter: AxiosAdapter = async (config) => {
+            const response = {
+                data: JSON.stringify({ path: config.url }),
+                status: config.url === '/missing' ? 404 : 200,
+                statusText: 'OK',
+                headers: { 'content-type': 'application/json', 'set-cookie': ['session=secret'] },
+                config,
+            };
+            if (response.status === 404) {
+                throw new AxiosError('Request failed with status code 404', AxiosError.ERR_BAD_REQUEST, config, {}, response);
+            }
+            return response;
+        };
+
+        test('should record real traffic and replay it offline', async () => {
+            const file = join(mkdtempSync(join(tmpdir(), 'fixtures-')), 'nested', 'users.json');
+            const recorder = new ApiMock({ mode: 'record', fixtures: file, adapter: realAdapter });
+            const recordingApi = createApi(recorder);
+
+            await expect(recordingApi.get('/users?page=1')).resolves.toEqual({ path: '/users?page=1' });
+            await expect(recordingApi.get('/missing', undefined, 'public')).rejects.toBeInstanceOf(NotFoundError);
+            recorder.save();
+
+            const fixtures = JSON.parse(readFileSync(file, 'utf8')) as MockFixture[];
+            expect(fixtures).toEqual([
+                {
+                    method: 'GET',
+                    service: 'private',
+                    url: '/users?page=1',
+                    status: 200,
+                    headers: { 'content-type': 'application/json', 'set-cookie': REDACTED },
+                    data: { path: '/users?page=1' },
+                },
+                expect.objectContaining({ service: 'public', url: '/missing', status: 404 }),
+            ]);
+
+            const player = new ApiMock({ fixtures: file });
+            const api = createApi(player);
+            await expect(api.get('/users?page=1')).resolves.toEqual({ path: '/users?page=1' });
+            await expect(api.get('/missing', undefined, 'public')).rejects.toBeInstanceOf(NotFoundError);
+            await expect(api.get('/users?page=2')).rejects.toThrow('No mock handler');
+        });
+
+        test('should redact sensitive body fields before writing fixtures', async () => {
+            const file = join(mkdtempSync(join(tmpdir(), 'fixtures-')), 'session.json');
+            const adapter: AxiosAdapter = async (config) => ({
+                data: { accessToken: 'secret-token', user: { name: 'Ada', iban: 'FR76' } },
+                status: 200,
+                statusText: 'OK',
+                headers: {},
+                config,
+            });
+            const recorder = new ApiMock({ mode: 'record', fixtures: file, adapter, redact: { fields: ['iban'] } });
+
+            await createApi(recorder).post('/session', { email: 'a@b.c' });
+            recorder.save();
+
+            expect(readFileSync(file, 'utf8')).not.toContain('secret-token');
+            expect((JSON.parse(readFileSync(file, 'utf8')) as MockFixture[])[0].data).toEqual({
+                accessToken: REDACTED,
+                user: { name: 'Ada', iban: REDACTED },
+            });
+        });
+
+        test('should replay identical requests in recorded order', async () => {
+            const mock = new ApiMock({
+                fixtures: [
+                    { method: 'GET', service: 'private', url: '/status', status: 200, data: 'pending' },
+                    { method: 'GET', service: 'private', url: '/status', status: 200, data: 'done' },
+                ],
+            });
+            const api = createApi(mock);
+
+            await expect(api.get('/status')).resolves.toBe('pending');
+            await expect(api.get('/status')).resolves.toBe('done');
+            await expect(api.get('/status')).resolves.toBe('done');
+        });
+
+        test('should fail on a missing fixture file', () => {
+            expect(() => new ApiMock({ fixtures: join(tmpdir(), 'missing-fixtures.json') }))
+                .toThrow('Fixture file not found');
+        });
+    });
+});
@@ -0,0 +1,186 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { decodeJwtExpiry, getTokenExpiry, parseExpiresAt } from '../src/token';
+
+const base64Url = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const createJwt = (payload: object) => `${base64Url({ alg: 'HS256', typ: 'JWT' })}.${base64Url(payload)}.signature`;
+
+describe('Token lifecycle', () => {
+    const now = new Date('2025-01-01T12:00:00Z').getTime();
+
+    beforeEach(() => {
+        jest.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('expiry helpers', () => {
+        test('should decode the exp claim of a JWT', () => {
+            expect(decodeJwtExpiry(createJwt({ sub: '1', exp: 1735732800 }))).toBe(1735732800000);
+            expect(decodeJwtExpiry(createJwt({ sub: '1' }))).toBeNull();
+            expect(decodeJwtExpiry('opaque-token')).toBeNull();
+            expect(decodeJwtExpiry('a.not-json.c')).toBeNull();
+        });
+
+        test('should parse expiresAt in seconds, milliseconds, ISO dates and Date objects', () => {
+            expect(parseExpiresAt(1735732800)).toBe(1735732800000);
+            expect(parseExpiresAt(1735732800000)).toBe(1735732800000);
+            expect(parseExpiresAt('2025-01-01T12:00:00Z')).toBe(now);
+            expect(parseExpiresAt(new Date(now))).toBe(now);
+            expect(parseExpiresAt('soon')).toBeNull();
+        });
+
+        test('should prefer expiresAt over the JWT claim', () => {
+            expect(getTokenExpiry(createJwt({ exp: 1 }), now)).toBe(now);
+        });
+    });
+
+    describe('Api', () => {
+        let mockAxios: MockAdapter;
+
+        beforeEach(() => {
+            mockAxios = new MockAdapter(axios);
+            mockAxios.onGet('/me').reply(200, {});
+        });
+
+        afterEach(() => {
+            mockAxios.reset();
+        });
+
+        const sentTokens = () => mockAxios.history.get.map((request) => request.headers?.Authorization);
+
+        test('should refresh a token ahead of its expiry', async () => {
+            const expiring = createJwt({ exp: (now + 10000) / 1000 });
+            const refreshSession = jest.fn().mockResolvedValue({ accessToken: 'refreshed', expiresAt: now + 3600000 });
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession: jest.fn().mockResolvedValue({ accessToken: expiring }),
+                signOut: jest.fn(),
+                refreshSession,
+                tokenRefreshSkew: 30000,
+            });
+
+            await api.get('/me');
+            await api.get('/me');
+
+            expect(sentTokens()).toEqual(['Bearer refreshed', 'Bearer refreshed']);
+            expect(refreshSession).toHaveBeenCalledTimes(1);
+        });
+
+        test('should keep a valid token until the skew window', async () => {
+            const getSession = jest.fn().mockResolvedValue({ accessToken: 'token', expiresAt: now + 60000 });
+            const refreshSession = jest.fn().mockResolvedValue({ accessToken: 'refreshed', expiresAt: now + 3600000 });
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession,
+                signOut: jest.fn(),
+                refreshSession,
+                tokenRefreshSkew: 30000,
+            });
+
+            await api.get('/me');
+            jest.spyOn(Date, 'now').mockReturnValue(now + 31000);
+            await api.get('/me');
+
+            expect(sentTokens()).toEqual(['Bearer token', 'Bearer refreshed']);
+            expect(getSession).toHaveBeenCalledTimes(1);
+        });
+
+        test('should never attach an expired token', async () => {
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession: jest.fn().mockResolvedValue({ accessToken: 'expired', expiresAt: now - 1000 }),
+                signOut: jest.fn(),
+            });
+
+            await api.get('/me');
+
+            expect(sentTokens()).toEqual([undefined]);
+        });
+
+        test('should fall back to the session when the refresh fails', async () => {
+            const getSession = jest.fn()
+                .mockResolvedValueOnce({ accessToken: 'first', expiresAt: now + 60000 })
+                .mockResolvedValueOnce({ accessToken: 'second', expiresAt: now + 3600000 });
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession,
+                signOut: jest.fn(),
+                refreshSession: jest.fn().mockRejectedValue(new Error('offline')),
+            });
+
+            await api.get('/me');
+            jest.spyOn(Date, 'now').mockReturnValue(now + 45000);
+            await api.get('/me');
+
+            expect(sentTokens()).toEqual(['Bearer first', 'Bearer second']);
+        });
+
+        test('should keep a token inside the skew window when it cannot be refreshed', async () => {
+            const getSession = jest.fn().mockResolvedValue({ accessToken: 'token', expiresAt: now + 20000 });
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession,
+                signOut: jest.fn(),
+                tokenRefreshSkew: 30000,
+            });
+            const listener = jest.fn();
+            api.on('tokenChanged', listener);
+
+            await api.get('/me');
+            await api.get('/me');
+            await api.get('/me');
+
+            expect(sentTokens()).toEqual(['Bearer token', 'Bearer token', 'Bearer token']);
+            expect(getSession).toHaveBeenCalledTimes(2);
+            expect(listener).toHaveBeenCalledTimes(1);
+
+            // Nouvelle tentative une fois le délai écoulé
+            jest.spyOn(Date, 'now').mockReturnValue(now + 10001);
+            await api.get('/me');
+            expect(getSession).toHaveBeenCalledTimes(3);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        test('should emit tokenChanged events', async () => {
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession: jest.fn().mockResolvedValue({ accessToken: 'session-token' }),
+                signOut: jest.fn(),
+            });
+            const listener = jest.fn();
+            const unsubscribe = api.on('tokenChanged', listener);
+
+            await api.get('/me');
+            api.setToken('manual', now + 1000);
+            api.setToken('manual', now + 1000);
+            api.clearToken();
+            unsubscribe();
+            api.setToken('ignored');
+
+            expect(listener.mock.calls.map(([event]) => event)).toEqual([
+                { token: 'session-token', previousToken: null, expiresAt: null },
+                { token: 'manual', previousToken: 'session-token', expiresAt: now + 1000 },
+                { token: null, previousToken: 'manual', expiresAt: null },
+            ]);
+        });
+
+        test('should not break requests when a listener throws', async () => {
+            const api = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession: jest.fn().mockResolvedValue({ accessToken: 'token' }),
+                signOut: jest.fn(),
+            });
+            api.on('tokenChanged', () => {
+                throw new Error('listener failure');
+            });
+
+            await expect(api.get('/me')).resolves.toEqual({});
+        });
+    });
+});
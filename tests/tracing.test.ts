@@ -0,0 +1,111 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { formatTraceparent, parseTraceparent, w3cTracer } from '../src/tracing';
+import { RequestEventContext, Tracer } from '../src/types';
+
+describe('Tracing', () => {
+    const context: RequestEventContext = { requestId: '1', method: 'GET', endpoint: '/users', service: 'private', tags: [] };
+    const parent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+    describe('traceparent helpers', () => {
+        test('should parse a valid traceparent', () => {
+            expect(parseTraceparent(parent)).toEqual({
+                traceId: '0af7651916cd43dd8448eb211c80319c',
+                parentId: 'b7ad6b7169203331',
+                sampled: true,
+            });
+        });
+
+        test('should reject invalid values', () => {
+            expect(parseTraceparent('garbage')).toBeNull();
+            expect(parseTraceparent(`00-${'0'.repeat(32)}-b7ad6b7169203331-01`)).toBeNull();
+            expect(parseTraceparent(undefined)).toBeNull();
+        });
+
+        test('should format the sampled flag', () => {
+            expect(formatTraceparent('a'.repeat(32), 'b'.repeat(16), false)).toBe(`00-${'a'.repeat(32)}-${'b'.repeat(16)}-00`);
+        });
+    });
+
+    describe('w3cTracer', () => {
+        test('should start a new trace', () => {
+            const span = w3cTracer({ tracestate: 'ak=1' }).startSpan(context);
+
+            expect(span?.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+            expect(span?.tracestate).toBe('ak=1');
+        });
+
+        test('should continue the parent trace', () => {
+            const span = w3cTracer({ getParent: () => parent }).startSpan(context);
+            const parsed = parseTraceparent(span?.traceparent);
+
+            expect(parsed?.traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+            expect(parsed?.parentId).not.toBe('b7ad6b7169203331');
+        });
+
+        test('should skip services that are not listed', () => {
+            expect(w3cTracer({ services: ['payments'] }).startSpan(context)).toBeUndefined();
+        });
+    });
+
+    describe('Api integration', () => {
+        let mockAxios: MockAdapter;
+
+        beforeEach(() => {
+            mockAxios = new MockAdapter(axios);
+        });
+
+        afterEach(() => {
+            mockAxios.reset();
+        });
+
+        test('should propagate the span headers and end the span', async () => {
+            const end = jest.fn();
+            const tracer: Tracer = {
+                startSpan: jest.fn(() => ({ traceparent: parent, tracestate: 'ak=1', end })),
+            };
+            const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false, tracer });
+            mockAxios.onGet('/users').reply(200, []);
+
+            await api.get('/users');
+
+            expect(tracer.startSpan).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', endpoint: '/users' }));
+            expect(mockAxios.history.get[0].headers).toMatchObject({ traceparent: parent, tracestate: 'ak=1' });
+            expect(end).toHaveBeenCalledWith({ status: 200, duration: expect.any(Number) });
+        });
+
+        test('should not fail the request when the tracer throws', async () => {
+            const failing: Tracer = {
+                startSpan: () => {
+                    throw new Error('tracer down');
+                },
+            };
+            const failingEnd: Tracer = {
+                startSpan: () => ({
+                    traceparent: parent,
+                    end: () => {
+                        throw new Error('exporter down');
+                    },
+                }),
+            };
+            mockAxios.onGet('/users').reply(200, []);
+
+            await expect(new Api({ baseUrl: 'https://api.example.com', enableAuth: false, tracer: failing }).get('/users'))
+                .resolves.toEqual([]);
+            await expect(new Api({ baseUrl: 'https://api.example.com', enableAuth: false, tracer: failingEnd }).get('/users'))
+                .resolves.toEqual([]);
+            expect(mockAxios.history.get[0].headers?.traceparent).toBeUndefined();
+            expect(mockAxios.history.get[1].headers).toMatchObject({ traceparent: parent });
+        });
+
+        test('should not add headers without a tracer', async () => {
+            const api = new Api({ baseUrl: 'https://api.example.com', enableAuth: false });
+            mockAxios.onGet('/users').reply(200, []);
+
+            await api.get('/users');
+
+            expect(mockAxios.history.get[0].headers?.traceparent).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,147 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { Api } from '../src/core';
+import { buildFormData, parseContentDisposition } from '../src/transfer';
+
+describe('Upload and download', () => {
+    let mockAxios: MockAdapter;
+    let api: Api;
+
+    beforeEach(() => {
+        mockAxios = new MockAdapter(axios);
+        api = new Api({
+            baseUrl: 'https://api.example.com',
+            getSession: jest.fn().mockResolvedValue({ accessToken: 'fake-token' }),
+            signOut: jest.fn(),
+        });
+    });
+
+    afterEach(() => {
+        mockAxios.reset();
+    });
+
+    describe('buildFormData', () => {
+        test('should append fields, files and repeated values', () => {
+            const formData = buildFormData({
+                title: 'Contrat',
+                pages: 3,
+                draft: false,
+                attachment: { data: new Uint8Array([1, 2, 3]), filename: 'contrat.pdf', contentType: 'application/pdf' },
+                tags: ['rh', 'legal'],
+                ignored: undefined,
+            });
+
+            const attachment = formData.get('attachment') as File;
+            expect(formData.get('title')).toBe('Contrat');
+            expect(formData.get('pages')).toBe('3');
+            expect(formData.get('draft')).toBe('false');
+            expect(formData.getAll('tags')).toEqual(['rh', 'legal']);
+            expect(formData.has('ignored')).toBe(false);
+            expect(attachment.name).toBe('contrat.pdf');
+            expect(attachment.type).toBe('application/pdf');
+            expect(attachment.size).toBe(3);
+        });
+
+        test('should return an existing FormData unchanged', () => {
+            const formData = new FormData();
+
+            expect(buildFormData(formData)).toBe(formData);
+        });
+    });
+
+    describe('parseContentDisposition', () => {
+        test.each([
+            ['attachment; filename="rapport.pdf"', 'rapport.pdf'],
+            ['attachment; filename=rapport.pdf', 'rapport.pdf'],
+            ['attachment; filename="say \\"hi\\".txt"', 'say "hi".txt'],
+            ['attachment; filename="fallback.pdf"; filename*=UTF-8\'\'rapport%20final%C3%A9.pdf', 'rapport finalé.pdf'],
+            ['inline', undefined],
+            [undefined, undefined],
+        ])('should read %p', (header, filename) => {
+            expect(parseContentDisposition(header)).toBe(filename);
+        });
+    });
+
+    describe('upload', () => {
+        test('should send multipart data with auth and report progress', async () => {
+            const onProgress = jest.fn();
+            mockAxios.onPost('/documents').reply((config) => {
+                config.onUploadProgress?.({ loaded: 50, total: 100, progress: 0.5, bytes: 50, upload: true, lengthComputable: true });
+                return [201, { id: 1 }];
+            });
+
+            const result = await api.upload<{ id: number }>(
+                '/documents',
+                { file: new Blob(['contenu']), name: 'contrat' },
+                { onProgress }
+            );
+
+            const request = mockAxios.history.post[0];
+            expect(result).toEqual({ id: 1 });
+            expect(request.data).toBeInstanceOf(FormData);
+            expect((request.data as FormData).get('name')).toBe('contrat');
+            expect(request.headers?.['Content-Type']).toBe('multipart/form-data');
+            expect(request.headers?.Authorization).toBe('Bearer fake-token');
+            expect(onProgress).toHaveBeenCalledWith({ loaded: 50, total: 100, progress: 0.5 });
+        });
+
+        test('should use the requested method and service', async () => {
+            const uploadApi = new Api({
+                baseUrl: 'https://api.example.com',
+                enableAuth: false,
+                services: { files: { url: 'https://files.example.com' } },
+            });
+            mockAxios.onPut('/avatars/1').reply(200, 'ok');
+
+            await uploadApi.upload('/avatars/1', { avatar: new Blob(['png']) }, { method: 'PUT', service: 'files' });
+
+            expect(mockAxios.history.put[0].baseURL).toBe('https://files.example.com');
+        });
+    });
+
+    describe('download', () => {
+        test('should return the body with the filename and metadata', async () => {
+            const onProgress = jest.fn();
+            mockAxios.onGet('/reports/1?format=pdf').reply((config) => {
+                config.onDownloadProgress?.({ loaded: 7, total: 7, progress: 1, bytes: 7, download: true, lengthComputable: true });
+                return [200, new Blob(['rapport']), {
+                    'content-disposition': 'attachment; filename="rapport.pdf"',
+                    'content-type': 'application/pdf',
+                    'content-length': '7',
+                }];
+            });
+
+            const result = await api.download('/reports/1', { searchParams: { format: 'pdf' }, onProgress });
+
+            expect(result.data).toBeInstanceOf(Blob);
+            expect(result.filename).toBe('rapport.pdf');
+            expect(result.contentType).toBe('application/pdf');
+            expect(result.size).toBe(7);
+            expect(mockAxios.history.get[0].responseType).toBe('blob');
+            expect(mockAxios.history.get[0].headers?.Authorization).toBe('Bearer fake-token');
+            expect(onProgress).toHaveBeenCalledWith({ loaded: 7, total: 7, progress: 1 });
+        });
+
+        test('should not share simultaneous downloads', async () => {
+            mockAxios.onGet('/reports/1').reply(200, new Blob(['rapport']));
+
+            await Promise.all([api.download('/reports/1'), api.download('/reports/1')]);
+
+            expect(mockAxios.history.get).toHaveLength(2);
+        });
+
+        test('should retry downloads like other GET requests', async () => {
+            const retryApi = new Api({
+                baseUrl: 'https://api.example.com',
+                getSession: jest.fn().mockResolvedValue({ accessToken: 'fake-token' }),
+                signOut: jest.fn(),
+                retryPolicy: { retryDelay: 0 },
+            });
+            mockAxios.onGet('/reports/1').replyOnce(503).onGet('/reports/1').reply(200, new Blob(['rapport']));
+
+            await expect(retryApi.download('/reports/1', { responseType: 'arraybuffer' })).resolves.toHaveProperty('data');
+            expect(mockAxios.history.get).toHaveLength(2);
+            expect(mockAxios.history.get[1].responseType).toBe('arraybuffer');
+        });
+    });
+});
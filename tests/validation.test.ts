@@ -0,0 +1,60 @@
+import { validateResponse } from '../src/validation';
+import { ParseSchema, SafeParseSchema, StandardSchema } from '../src/types';
+
+interface User {
+    id: number;
+}
+
+const isUser = (data: unknown): data is User =>
+    typeof (data as User)?.id === 'number';
+
+describe('validateResponse', () => {
+    test('should accept a type guard', async () => {
+        await expect(validateResponse(isUser, { id: 1 })).resolves.toEqual({ success: true, data: { id: 1 } });
+        await expect(validateResponse(isUser, { id: '1' })).resolves.toEqual({
+            success: false,
+            issues: ['Response rejected by type guard'],
+        });
+    });
+
+    test('should accept a Standard Schema validator', async () => {
+        const schema: StandardSchema<User> = {
+            '~standard': {
+                validate: async (value) => isUser(value)
+                    ? { value }
+                    : { issues: [{ message: 'Expected id', path: ['id'] }] },
+            },
+        };
+
+        await expect(validateResponse(schema, { id: 1 })).resolves.toEqual({ success: true, data: { id: 1 } });
+        await expect(validateResponse(schema, {})).resolves.toEqual({
+            success: false,
+            issues: [{ message: 'Expected id', path: ['id'] }],
+        });
+    });
+
+    test('should accept a Zod-like safeParse schema', async () => {
+        const schema: SafeParseSchema<User> = {
+            safeParse: (data) => isUser(data)
+                ? { success: true, data }
+                : { success: false, error: { issues: [{ code: 'invalid_type', path: ['id'] }] } },
+        };
+
+        await expect(validateResponse(schema, {})).resolves.toEqual({
+            success: false,
+            issues: [{ code: 'invalid_type', path: ['id'] }],
+        });
+    });
+
+    test('should accept a throwing parse schema', async () => {
+        const schema: ParseSchema<User> = {
+            parse: (data) => {
+                if (!isUser(data)) throw new Error('Invalid user');
+                return data;
+            },
+        };
+
+        await expect(validateResponse(schema, { id: 2 })).resolves.toEqual({ success: true, data: { id: 2 } });
+        await expect(validateResponse(schema, null)).resolves.toEqual({ success: false, issues: ['Invalid user'] });
+    });
+});